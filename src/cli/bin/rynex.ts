@@ -63,6 +63,7 @@ async function main() {
         sourceMaps: config.sourceMaps,
         routes: config.routes,
         config,
+        prerender: args.includes("--prerender"),
       });
       break;
     }
@@ -179,6 +180,9 @@ Commands:
   clean [options]   Remove build artifacts (dist directory)
   help              Show this help message
 
+Build Options:
+  --prerender       Render every route to static HTML (plus 404.html)
+
 Clean Options:
   -f, --force       Skip confirmation prompt
   -v, --verbose     Show detailed output
@@ -188,6 +192,7 @@ Examples:
   rynex init:css
   rynex dev
   rynex build
+  rynex build --prerender
   rynex clean
   rynex clean --force
   rynex clean --verbose
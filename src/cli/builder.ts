@@ -32,6 +32,7 @@ import { createAliasPlugin } from "./path-resolver.js";
 import { buildProgress } from "./progress.js";
 import { compressDirectory, printCompressionSummary } from "./compression.js";
 import { handleError, parseBuildError } from "./error-handler.js";
+import { prerender } from "./prerender.js";
 import {
   processCSS,
   checkCSSSetup,
@@ -39,6 +40,26 @@ import {
   printCSSSetupInstructions,
 } from "./css-processor.js";
 
+/**
+ * JSX/TSX goes through the automatic runtime exported as rynex/jsx-runtime
+ */
+export const JSX_TRANSFORM = {
+  jsx: {
+    runtime: "automatic" as const,
+    importSource: "rynex",
+  },
+};
+
+/**
+ * Routing settings the runtime's createRouter() reads as __RYNEX_ROUTING__
+ */
+function routingDefine(config?: RynexConfig): string {
+  return JSON.stringify({
+    mode: config?.routing?.mode || "history",
+    base: config?.routing?.base || "/",
+  });
+}
+
 /**
  * Check if Tailwind CSS is configured
  * Note: Tailwind CSS support with Rolldown will need a custom plugin or PostCSS integration
@@ -63,6 +84,8 @@ export interface BuildOptions {
   watch?: boolean;
   routes?: RouteConfig[];
   config?: RynexConfig;
+  // Render every route to static HTML after bundling
+  prerender?: boolean;
 }
 
 /**
@@ -142,6 +165,7 @@ async function buildComponents(
       const build = await rolldown({
         input: componentPath,
         cwd: projectRoot,
+        transform: JSX_TRANSFORM,
         plugins: [createAliasPlugin(projectRoot)],
         platform: "browser",
         treeshake: minify,
@@ -297,6 +321,7 @@ async function buildPages(
       const build = await rolldown({
         input: pageFile,
         cwd: projectRoot,
+        transform: JSX_TRANSFORM,
         plugins: [createAliasPlugin(projectRoot)],
         platform: "browser",
         treeshake: minify,
@@ -430,6 +455,7 @@ async function buildMainEntry(
   const build = await rolldown({
     input: path.join(projectRoot, options.entry),
     cwd: projectRoot,
+    transform: JSX_TRANSFORM,
     plugins: plugins,
     external: [],
     platform: "browser",
@@ -447,6 +473,7 @@ async function buildMainEntry(
       ),
       __DEV__: JSON.stringify(isDevelopment),
       __BUILD_HASH__: JSON.stringify(buildHash),
+      __RYNEX_ROUTING__: routingDefine(options.config),
     },
   });
 
@@ -713,6 +740,37 @@ export async function build(options: BuildOptions): Promise<void> {
     fs.writeFileSync(indexHtmlPath, generatedHTML, "utf8");
     logger.success(`Generated index.html with bundle: ${hashedBundleName}`);
 
+    // Prerender routes to static HTML
+    if (options.prerender) {
+      buildProgress.step("Prerendering routes");
+      const publicPath = options.config?.build?.publicPath || "/";
+      const pagesDir = path.join(
+        projectRoot,
+        options.config?.routing?.pagesDir || "src/pages",
+      );
+      // Pages live in nested directories, so asset URLs must be absolute
+      const prerenderResult = await prerender({
+        projectRoot,
+        distDir,
+        pagesDir,
+        template: generateHTMLWithConfig(
+          `${publicPath}${hashedBundleName}`,
+          htmlConfig,
+          buildHash,
+          `${publicPath}styles.css`,
+        ),
+        transform: JSX_TRANSFORM,
+      });
+      logger.success(
+        `Prerendered ${prerenderResult.pages.length} page(s) and 404.html`,
+      );
+      if (prerenderResult.skipped.length > 0) {
+        logger.info(
+          `Rendered in the browser only: ${prerenderResult.skipped.join(", ")}`,
+        );
+      }
+    }
+
     // Validate HTML files
     buildProgress.step("Validating HTML");
     logger.info("\nValidating HTML files...");
@@ -842,8 +900,12 @@ export async function watch(options: BuildOptions): Promise<void> {
   const build = await rolldown({
     input: path.join(projectRoot, options.entry),
     cwd: projectRoot,
+    transform: JSX_TRANSFORM,
     plugins: watchPlugins,
     external: [],
+    define: {
+      __RYNEX_ROUTING__: routingDefine(options.config),
+    },
     watch: {
       skipWrite: false,
     },
@@ -127,10 +127,12 @@ export function generateHTMLWithConfig(
   bundlePath: string,
   htmlConfig: HTMLConfig = {},
   buildHash?: string,
+  stylePath?: string,
 ): string {
   const options: HTMLGeneratorOptions = {
     ...htmlConfig,
     bundlePath,
+    stylePath,
     buildHash,
     inlineStyles:
       htmlConfig.inlineStyles !== false ? getDefaultInlineStyles() : undefined,
@@ -23,10 +23,13 @@ export interface HTMLValidationResult {
 
 /**
  * Validate and optionally fix HTML file
+ * Root-absolute references (/bundle.js) resolve against rootDir, which
+ * defaults to the file's own directory
  */
 export function validateHTML(
   filePath: string,
   autoFix: boolean = false,
+  rootDir: string = path.dirname(filePath),
 ): HTMLValidationResult {
   if (!fs.existsSync(filePath)) {
     return {
@@ -184,14 +187,16 @@ export function validateHTML(
   }
 
   // Check 9: Broken script/link references
-  const distDir = path.dirname(filePath);
+  const fileDir = path.dirname(filePath);
+  const resolveReference = (ref: string): string =>
+    path.join(ref.startsWith("/") ? rootDir : fileDir, ref);
 
   // Check script sources
   const scriptSrcs = [...html.matchAll(/<script[^>]+src="([^"]+)"/gi)];
   for (const match of scriptSrcs) {
     const src = match[1];
     if (!src.startsWith("http") && !src.startsWith("//")) {
-      const scriptPath = path.join(distDir, src);
+      const scriptPath = resolveReference(src);
 
       // Check if file exists OR if it's a valid bundle pattern
       // Match any filename with hash pattern: name.[hash].js
@@ -203,7 +208,7 @@ export function validateHTML(
         if (isHashedBundle && !fs.existsSync(scriptPath)) {
           // Check if any bundle with the same base name exists
           const baseName = src.replace(/\.[a-f0-9]{8}\.js$/, "");
-          const files = fs.readdirSync(distDir);
+          const files = fs.readdirSync(path.dirname(scriptPath));
           const hasAnyBundle = files.some(
             (f) =>
               f === `${baseName}.js` ||
@@ -240,7 +245,7 @@ export function validateHTML(
   for (const match of linkHrefs) {
     const href = match[1];
     if (!href.startsWith("http") && !href.startsWith("//")) {
-      const cssPath = path.join(distDir, href);
+      const cssPath = resolveReference(href);
       if (!fs.existsSync(cssPath)) {
         issues.push({
           type: "error",
@@ -374,7 +379,7 @@ export function validateHTMLDirectory(
   for (const file of files) {
     if (file.endsWith(".html")) {
       const filePath = path.join(dir, file);
-      const result = validateHTML(filePath, autoFix);
+      const result = validateHTML(filePath, autoFix, dir);
       results.set(file, result);
     }
   }
@@ -0,0 +1,349 @@
+/**
+ * Static Prerendering
+ * Renders every route from the page manifest to its own index.html, so the
+ * build can be deployed to any static host; the SPA takes over after load
+ */
+
+import { rolldown, InputOptions } from "rolldown";
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { scanRoutes, getRouteLayouts, ScannedRoute } from "./route-scanner.js";
+import { createAliasPlugin } from "./path-resolver.js";
+import { logger } from "./logger.js";
+
+export interface PrerenderOptions {
+  projectRoot: string;
+  distDir: string;
+  pagesDir: string;
+  // Page shell with an empty #app (or #root) container
+  template: string;
+  transform?: InputOptions["transform"];
+}
+
+export interface PrerenderResult {
+  pages: string[];
+  skipped: string[];
+}
+
+/**
+ * One entry of a dynamic route's getStaticPaths() result
+ */
+export interface StaticPath {
+  params: Record<string, string | string[]>;
+  data?: any;
+}
+
+interface PrerenderModule {
+  default?: Function;
+  getStaticPaths?: () => StaticPath[] | Promise<StaticPath[]>;
+  renderToStringWithHead: (
+    component: Function,
+    props?: any,
+  ) => Promise<{ html: string; head: string }>;
+  routeContext: (url: string, params?: any, data?: any) => any;
+  __rynexLayouts: Function[];
+}
+
+const ROOT_CONTAINER = /<div id="(app|root)"><\/div>/;
+
+/**
+ * Bundle a page for Node, re-exporting the server renderer from the same
+ * rynex install the page uses, so both share one runtime
+ */
+async function loadPage(
+  filePath: string,
+  index: number,
+  tempDir: string,
+  options: PrerenderOptions,
+  layouts: string[] = [],
+): Promise<PrerenderModule> {
+  const entryPath = path.join(tempDir, `entry-${index}.js`);
+  const outputPath = path.join(tempDir, `page-${index}.mjs`);
+  const toImport = (file: string) => JSON.stringify(file.replace(/\\/g, "/"));
+  const pageImport = toImport(filePath);
+  const layoutImports = layouts
+    .map((layout, i) => `import Layout${i} from ${toImport(layout)};\n`)
+    .join("");
+  const layoutNames = layouts.map((_layout, i) => `Layout${i}`).join(", ");
+
+  fs.writeFileSync(
+    entryPath,
+    `${layoutImports}export * from ${pageImport};
+export { default } from ${pageImport};
+export { renderToStringWithHead, routeContext } from "rynex/server";
+export const __rynexLayouts = [${layoutNames}];
+`,
+    "utf8",
+  );
+
+  const build = await rolldown({
+    input: entryPath,
+    cwd: options.projectRoot,
+    transform: options.transform,
+    plugins: [createAliasPlugin(options.projectRoot)],
+    platform: "node",
+    external: (id) => /^rynex(\/|$)/.test(id),
+    logLevel: "warn",
+  });
+  await build.write({ file: outputPath, format: "es" });
+  await build.close();
+
+  return import(pathToFileURL(outputPath).href);
+}
+
+/**
+ * Render a page inside its layouts the way the router does: each layout
+ * gets the outlet element its child is placed in
+ */
+function withLayouts(layouts: Function[], component: Function): Function {
+  return layouts.reduceRight(
+    (inner, layout) => (ctx: any) => {
+      const outlet = document.createElement("div");
+      outlet.className = "router-outlet";
+      return Promise.all([layout(ctx, outlet), inner(ctx)]).then(
+        ([element, child]) => {
+          outlet.appendChild(child);
+          return element;
+        },
+      );
+    },
+    component,
+  );
+}
+
+/**
+ * Fill a route pattern (/blog/:slug, /docs/*) with parameter values
+ * Returns null when a required parameter is missing
+ */
+function fillPath(
+  routePath: string,
+  params: Record<string, string | string[]>,
+): string | null {
+  const segments: string[] = [];
+  for (const segment of routePath.split("/").filter(Boolean)) {
+    if (segment === "*") {
+      const value = params.slug;
+      if (value === undefined) {
+        return null;
+      }
+      const parts = Array.isArray(value) ? value : value.split("/");
+      segments.push(...parts.map(encodeURIComponent));
+    } else if (segment.startsWith(":")) {
+      const optional = segment.endsWith("?");
+      const value = params[segment.slice(1).replace("?", "")];
+      if (value === undefined || value === "") {
+        if (optional) {
+          continue;
+        }
+        return null;
+      }
+      segments.push(
+        encodeURIComponent(Array.isArray(value) ? value.join("/") : value),
+      );
+    } else {
+      segments.push(segment);
+    }
+  }
+  return "/" + segments.join("/");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Add a page's head() tags to the shell, dropping shell tags they replace
+ */
+function mergeHead(template: string, headTags: string): string {
+  if (!headTags) {
+    return template;
+  }
+  let html = template;
+  if (/<title>/.test(headTags)) {
+    html = html.replace(/\s*<title>[\s\S]*?<\/title>/, "");
+  }
+  for (const [, attribute, value] of headTags.matchAll(
+    /<meta [^>]*?\b(name|property|http-equiv)="([^"]*)"/g,
+  )) {
+    html = html.replace(
+      new RegExp(
+        `\\s*<meta [^>]*?\\b${attribute}="${escapeRegExp(value)}"[^>]*>`,
+      ),
+      "",
+    );
+  }
+  if (/<link [^>]*?\brel="canonical"/.test(headTags)) {
+    html = html.replace(/\s*<link [^>]*?\brel="canonical"[^>]*>/, "");
+  }
+  return html.replace(
+    "</head>",
+    `  ${headTags.split("\n").join("\n  ")}\n</head>`,
+  );
+}
+
+/**
+ * Put rendered markup and head tags into the page shell
+ * The container is marked so the client app replaces it on mount
+ */
+function fillTemplate(
+  template: string,
+  markup: string,
+  headTags: string,
+): string {
+  return mergeHead(template, headTags).replace(
+    ROOT_CONTAINER,
+    (_match, id) => `<div id="${id}" data-prerendered>${markup}</div>`,
+  );
+}
+
+function writePage(distDir: string, urlPath: string, html: string): string {
+  // Static hosts decode the request path before looking up the file
+  const outputPath = path.join(
+    distDir,
+    ...urlPath.split("/").map(decodeURIComponent),
+    "index.html",
+  );
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, html, "utf8");
+  return outputPath;
+}
+
+/**
+ * List the concrete paths of a route, with their params and data
+ */
+async function expandRoute(
+  route: ScannedRoute,
+  page: PrerenderModule,
+): Promise<StaticPath[] | null> {
+  if (!route.dynamic) {
+    return [{ params: {} }];
+  }
+  if (typeof page.getStaticPaths !== "function") {
+    return null;
+  }
+  const paths = await page.getStaticPaths();
+  return Array.isArray(paths) ? paths : [];
+}
+
+/**
+ * Prerender all routes found in the pages directory
+ * Static routes render once; dynamic routes render once per entry returned
+ * by the page's exported getStaticPaths(). A 404.html is always written,
+ * from the root not-found page if there is one.
+ */
+export async function prerender(
+  options: PrerenderOptions,
+): Promise<PrerenderResult> {
+  const result: PrerenderResult = { pages: [], skipped: [] };
+
+  if (!ROOT_CONTAINER.test(options.template)) {
+    logger.warning(
+      'Prerender: page shell has no empty <div id="app"> or <div id="root">',
+    );
+    return result;
+  }
+
+  const manifest = scanRoutes(options.pagesDir);
+  const tempDir = path.join(options.distDir, ".prerender");
+  fs.mkdirSync(tempDir, { recursive: true });
+
+  try {
+    let moduleIndex = 0;
+
+    for (const route of manifest.routes) {
+      try {
+        const page = await loadPage(
+          route.filePath,
+          moduleIndex++,
+          tempDir,
+          options,
+          getRouteLayouts(manifest, route.path).map((layoutPath) =>
+            manifest.layouts.get(layoutPath)!,
+          ),
+        );
+        if (typeof page.default !== "function") {
+          logger.warning(`Prerender: ${route.filePath} has no default export`);
+          result.skipped.push(route.path);
+          continue;
+        }
+
+        const paths = await expandRoute(route, page);
+        if (!paths) {
+          logger.warning(
+            `Prerender: ${route.path} is dynamic and exports no getStaticPaths(); it will be rendered in the browser`,
+          );
+          result.skipped.push(route.path);
+          continue;
+        }
+
+        for (const { params, data } of paths) {
+          const urlPath = fillPath(route.path, params || {});
+          if (!urlPath) {
+            logger.warning(
+              `Prerender: missing params for ${route.path}: ${JSON.stringify(params)}`,
+            );
+            continue;
+          }
+          const rendered = await page.renderToStringWithHead(
+            withLayouts(page.__rynexLayouts, page.default),
+            page.routeContext(urlPath, params, data),
+          );
+          writePage(
+            options.distDir,
+            urlPath,
+            fillTemplate(options.template, rendered.html, rendered.head),
+          );
+          result.pages.push(urlPath);
+          logger.debug(`Prerendered ${urlPath}`);
+        }
+      } catch (error) {
+        logger.error(`Prerender failed for ${route.path}`, error as Error);
+        result.skipped.push(route.path);
+      }
+    }
+
+    // Static hosts serve 404.html for unknown paths; without a not-found
+    // page it is the plain shell, and the client router handles the path.
+    // The page renders inside the root layouts, like any other page.
+    let notFoundHTML = options.template;
+    const notFoundFile = manifest.routes.find(
+      (route) => route.path === "/",
+    )?.notFound;
+    if (notFoundFile) {
+      try {
+        const page = await loadPage(
+          notFoundFile,
+          moduleIndex++,
+          tempDir,
+          options,
+          getRouteLayouts(manifest, "/").map((layoutPath) =>
+            manifest.layouts.get(layoutPath)!,
+          ),
+        );
+        if (typeof page.default === "function") {
+          const rendered = await page.renderToStringWithHead(
+            withLayouts(page.__rynexLayouts, page.default),
+            page.routeContext("/404"),
+          );
+          notFoundHTML = fillTemplate(
+            options.template,
+            rendered.html,
+            rendered.head,
+          );
+        }
+      } catch (error) {
+        logger.error("Prerender failed for 404 page", error as Error);
+      }
+    }
+    fs.writeFileSync(
+      path.join(options.distDir, "404.html"),
+      notFoundHTML,
+      "utf8",
+    );
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  return result;
+}
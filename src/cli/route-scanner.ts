@@ -214,33 +214,108 @@ export const middleware = new Map(${JSON.stringify(Array.from(manifest.middlewar
   logger.success(`Generated route manifest: ${outputPath}`);
 }
 
+/**
+ * Paths of the layouts that wrap a route, outermost first
+ */
+export function getRouteLayouts(
+  manifest: RouteManifest,
+  routePath: string,
+): string[] {
+  return Array.from(manifest.layouts.keys())
+    .filter(
+      (layoutPath) =>
+        layoutPath === "/" ||
+        routePath === layoutPath ||
+        routePath.startsWith(layoutPath + "/"),
+    )
+    .sort(
+      (a, b) =>
+        a.split("/").filter(Boolean).length -
+        b.split("/").filter(Boolean).length,
+    );
+}
+
+interface RouteTreeNode {
+  layoutPath?: string;
+  route?: ScannedRoute;
+  children: RouteTreeNode[];
+}
+
+/**
+ * Nest routes under their layouts, keeping the specificity order
+ */
+function buildRouteTree(manifest: RouteManifest): RouteTreeNode[] {
+  const root: RouteTreeNode[] = [];
+
+  manifest.routes.forEach((route) => {
+    let siblings = root;
+    getRouteLayouts(manifest, route.path).forEach((layoutPath) => {
+      let node = siblings.find((child) => child.layoutPath === layoutPath);
+      if (!node) {
+        node = { layoutPath, children: [] };
+        siblings.push(node);
+      }
+      siblings = node.children;
+    });
+    siblings.push({ route, children: [] });
+  });
+
+  return root;
+}
+
 /**
  * Generate router configuration from manifest
+ * layout.ts files become parent routes that render their pages in an outlet
  */
 export function generateRouterConfig(
   manifest: RouteManifest,
   outputPath: string,
 ): void {
   const imports: string[] = [];
-  const routeConfigs: string[] = [];
-
-  manifest.routes.forEach((route, index) => {
-    const importName = `Page${index}`;
-    const relativePath = route.filePath.replace(/\\/g, "/");
-
-    imports.push(`import ${importName} from '${relativePath}';`);
+  const layoutImports = new Map<string, string>();
+
+  const renderNode = (node: RouteTreeNode, indent: string): string => {
+    if (node.route) {
+      const importName = `Page${imports.length}`;
+      const relativePath = node.route.filePath.replace(/\\/g, "/");
+      imports.push(`import ${importName} from '${relativePath}';`);
+
+      return `{
+${indent}  path: '${node.route.path}',
+${indent}  component: ${importName},
+${indent}  meta: {
+${indent}    dynamic: ${node.route.dynamic},
+${indent}    params: ${JSON.stringify(node.route.params)}
+${indent}  }
+${indent}}`;
+    }
 
-    const config = `{
-    path: '${route.path}',
-    component: ${importName},
-    meta: {
-      dynamic: ${route.dynamic},
-      params: ${JSON.stringify(route.params)}
+    const layoutPath = node.layoutPath!;
+    let importName = layoutImports.get(layoutPath);
+    if (!importName) {
+      importName = `Layout${layoutImports.size}`;
+      layoutImports.set(layoutPath, importName);
+      const relativePath = manifest.layouts
+        .get(layoutPath)!
+        .replace(/\\/g, "/");
+      imports.push(`import ${importName} from '${relativePath}';`);
     }
-  }`;
+    const children = node.children
+      .map((child) => renderNode(child, indent + "    "))
+      .join(`,\n${indent}    `);
+
+    return `{
+${indent}  path: '${layoutPath}',
+${indent}  component: ${importName},
+${indent}  children: [
+${indent}    ${children}
+${indent}  ]
+${indent}}`;
+  };
 
-    routeConfigs.push(config);
-  });
+  const routeConfigs = buildRouteTree(manifest).map((node) =>
+    renderNode(node, "  "),
+  );
 
   const code = `/**
  * Auto-generated router configuration
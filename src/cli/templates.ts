@@ -58,7 +58,9 @@ export const tsConfig = () => `{
     "strict": true,
     "esModuleInterop": true,
     "skipLibCheck": true,
-    "forceConsistentCasingInFileNames": true
+    "forceConsistentCasingInFileNames": true,
+    "jsx": "react-jsx",
+    "jsxImportSource": "rynex"
   },
   "include": ["src/**/*"],
   "exclude": ["node_modules", "dist", "public"]
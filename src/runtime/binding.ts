@@ -0,0 +1,233 @@
+/**
+ * Rynex Two-Way Binding
+ * bind(stateObj, "key") keeps a form control and a state property in sync,
+ * as a `bind` prop or through the form builders' .bind() method
+ */
+
+import { effect, getOwner, onCleanup, Signal } from "./state.js";
+import { addHandler } from "./events.js";
+import { debugWarn } from "./debug.js";
+
+export interface BindOptions {
+  // Coerce values to numbers (number and range inputs always do)
+  number?: boolean;
+  // Trim text values before writing them back
+  trim?: boolean;
+  // Write back on change instead of on every input
+  lazy?: boolean;
+}
+
+export interface Binding<T = any> {
+  get: () => T;
+  set: (value: T) => void;
+  options: BindOptions;
+}
+
+const BINDING = Symbol("rynex.binding");
+
+/**
+ * Create a two-way binding to a state property or a signal
+ * Usage: input({ bind: bind(form, 'email') }) or input().bind(form, 'email')
+ */
+export function bind<T extends object, K extends keyof T>(
+  stateObj: T,
+  key: K,
+  options?: BindOptions,
+): Binding<T[K]>;
+export function bind<T>(source: Signal<T>, options?: BindOptions): Binding<T>;
+export function bind(
+  source: any,
+  keyOrOptions?: PropertyKey | BindOptions,
+  options: BindOptions = {},
+): Binding {
+  if (typeof source === "function" && "set" in source && "peek" in source) {
+    const signalSource = source as Signal<any>;
+    return {
+      [BINDING]: true,
+      get: () => signalSource(),
+      set: (value) => signalSource.set(value),
+      options: (keyOrOptions as BindOptions) || {},
+    } as Binding;
+  }
+
+  if (source === null || typeof source !== "object") {
+    throw new Error("bind() expects a state object or a signal");
+  }
+
+  const key = keyOrOptions as PropertyKey;
+  return {
+    [BINDING]: true,
+    get: () => source[key],
+    set: (value) => {
+      source[key] = value;
+    },
+    options,
+  } as Binding;
+}
+
+/**
+ * Check whether a value was created by bind()
+ */
+export function isBinding(value: unknown): value is Binding {
+  return typeof value === "object" && value !== null && BINDING in value;
+}
+
+function toNumber(value: string): number | string {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? value : parsed;
+}
+
+/**
+ * Wire a form control to a binding
+ * Text-like controls skip writes while an IME composition is in progress
+ * and commit the composed text when it ends.
+ */
+export function applyBinding(element: HTMLElement, binding: Binding): void {
+  const { options } = binding;
+
+  if (element instanceof HTMLSelectElement) {
+    bindSelect(element, binding);
+    return;
+  }
+
+  if (
+    !(element instanceof HTMLInputElement) &&
+    !(element instanceof HTMLTextAreaElement)
+  ) {
+    debugWarn("Bind", `bind() is not supported on <${element.localName}>`);
+    return;
+  }
+
+  const type = element instanceof HTMLInputElement ? element.type : "textarea";
+  const coerce = (value: string) =>
+    options.number || type === "number" || type === "range"
+      ? toNumber(value)
+      : value;
+
+  if (type === "checkbox") {
+    const input = element as HTMLInputElement;
+    effect(() => {
+      const current = binding.get();
+      input.checked = Array.isArray(current)
+        ? current.includes(coerce(input.value))
+        : !!current;
+    });
+    addHandler(input, "change", () => {
+      const current = binding.get();
+      if (Array.isArray(current)) {
+        const value = coerce(input.value);
+        binding.set(
+          input.checked
+            ? current.includes(value)
+              ? current
+              : [...current, value]
+            : current.filter((item) => item !== value),
+        );
+      } else {
+        binding.set(input.checked);
+      }
+    });
+    return;
+  }
+
+  if (type === "radio") {
+    const input = element as HTMLInputElement;
+    effect(() => {
+      input.checked = String(binding.get()) === input.value;
+    });
+    addHandler(input, "change", () => {
+      if (input.checked) {
+        binding.set(coerce(input.value));
+      }
+    });
+    return;
+  }
+
+  if (type === "file") {
+    debugWarn("Bind", "File inputs are read-only and cannot be bound");
+    return;
+  }
+
+  let composing = false;
+
+  const read = () =>
+    coerce(options.trim ? element.value.trim() : element.value);
+
+  effect(() => {
+    const current = binding.get();
+    const next =
+      current === null || current === undefined ? "" : String(current);
+    // Leave the text alone while it already means the same value, so typing
+    // "1." or a trailing space is not undone and the caret does not jump
+    if (composing || element.value === next || read() === current) {
+      return;
+    }
+    element.value = next;
+  });
+
+  const write = () => binding.set(read());
+
+  addHandler(element, options.lazy ? "change" : "input", (event) => {
+    if (composing || (event as InputEvent).isComposing) {
+      return;
+    }
+    write();
+  });
+  addHandler(element, "compositionstart", () => {
+    composing = true;
+  });
+  addHandler(element, "compositionend", () => {
+    composing = false;
+    if (!options.lazy) {
+      write();
+    }
+  });
+  if (options.trim) {
+    // Show the trimmed value once editing is done
+    addHandler(element, "change", () => {
+      element.value = element.value.trim();
+    });
+  }
+}
+
+function bindSelect(element: HTMLSelectElement, binding: Binding): void {
+  const coerce = (value: string) =>
+    binding.options.number ? toNumber(value) : value;
+
+  const sync = (current: any) => {
+    if (element.multiple) {
+      const selected = Array.isArray(current) ? current : [];
+      Array.from(element.options).forEach((option) => {
+        option.selected = selected.includes(coerce(option.value));
+      });
+    } else {
+      element.value =
+        current === null || current === undefined ? "" : String(current);
+    }
+  };
+
+  effect(() => sync(binding.get()));
+
+  // Options are usually appended after props are applied, and may change
+  // later (e.g. rendered by each()), so sync again whenever they do
+  queueMicrotask(() => sync(binding.get()));
+  if (typeof MutationObserver !== "undefined") {
+    const observer = new MutationObserver(() => sync(binding.get()));
+    observer.observe(element, { childList: true, subtree: true });
+    if (getOwner()) {
+      onCleanup(() => observer.disconnect());
+    }
+  }
+
+  addHandler(element, "change", () => {
+    if (element.multiple) {
+      binding.set(
+        Array.from(element.selectedOptions).map((option) =>
+          coerce(option.value),
+        ),
+      );
+    } else {
+      binding.set(coerce(element.value));
+    }
+  });
+}
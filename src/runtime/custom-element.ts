@@ -0,0 +1,242 @@
+/**
+ * Rynex Custom Elements
+ * defineElement() registers a component as a standard Custom Element, so it
+ * can be used from plain HTML or from pages built with other frameworks
+ */
+
+import { state } from "./state.js";
+import { render, ComponentInstance } from "./renderer.js";
+import { debugLog, debugWarn } from "./debug.js";
+
+type PropType =
+  | StringConstructor
+  | NumberConstructor
+  | BooleanConstructor
+  | ObjectConstructor
+  | ArrayConstructor;
+
+export interface PropDefinition<T = any> {
+  type?: PropType;
+  default?: T;
+  // Attribute to observe; defaults to the kebab-cased prop name
+  attribute?: string | false;
+}
+
+export interface DefineElementOptions {
+  props?: Record<string, PropType | PropDefinition>;
+  // Render into an open shadow root
+  shadow?: boolean;
+  // CSS for the element; scoped when shadow is enabled
+  styles?: string | string[];
+}
+
+export interface ElementContext {
+  host: HTMLElement;
+  // Dispatch a CustomEvent from the host element; returns false if cancelled
+  emit: (name: string, detail?: any, options?: CustomEventInit) => boolean;
+}
+
+export type ElementComponent<P = any> = (
+  props: P,
+  element: ElementContext,
+) => HTMLElement;
+
+const styledTags = new Set<string>();
+
+function toAttributeName(prop: string): string {
+  return prop.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+function normalizeProp(definition: PropType | PropDefinition): PropDefinition {
+  return typeof definition === "function" ? { type: definition } : definition;
+}
+
+/**
+ * Convert an attribute value to the prop's type
+ */
+function fromAttribute(value: string | null, definition: PropDefinition): any {
+  switch (definition.type) {
+    case Boolean:
+      return value !== null && value !== "false";
+    case Number:
+      return value === null || value.trim() === ""
+        ? definition.default
+        : Number(value);
+    case Object:
+    case Array:
+      if (value === null) {
+        return definition.default;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        debugWarn("Element", `Could not parse attribute value: ${value}`);
+        return definition.default;
+      }
+    default:
+      return value === null ? definition.default : value;
+  }
+}
+
+/**
+ * Register a component as a Custom Element
+ * Declared props are reactive: they follow observed attributes and can be
+ * set as element properties. The component is mounted when the element is
+ * connected and its scope is disposed when it is removed.
+ * Usage: defineElement('rx-counter', Counter, { props: { count: Number }, shadow: true })
+ */
+export function defineElement<P extends Record<string, any> = any>(
+  tag: string,
+  component: ElementComponent<P>,
+  options: DefineElementOptions = {},
+): CustomElementConstructor {
+  if (typeof tag !== "string" || !/^[a-z][a-z0-9._]*-[a-z0-9._-]*$/.test(tag)) {
+    debugWarn("Element", `Invalid custom element name: ${tag}`);
+    throw new Error(
+      `Invalid custom element name "${tag}". Names must be lowercase and contain a hyphen.`,
+    );
+  }
+
+  const existing = customElements.get(tag);
+  if (existing) {
+    debugWarn("Element", `<${tag}> is already defined`);
+    return existing;
+  }
+
+  // Accessors for these would shadow the element's own (title, id, hidden)
+  const reserved = Object.keys(options.props || {}).filter(
+    (key) => key in HTMLElement.prototype || key === "props",
+  );
+  if (reserved.length > 0) {
+    debugWarn("Element", `<${tag}> props shadow HTMLElement properties`);
+    throw new Error(
+      `Invalid props for <${tag}>: ${reserved.join(", ")} ${reserved.length === 1 ? "is" : "are"} already HTMLElement properties. Use another name, e.g. "heading" for "title".`,
+    );
+  }
+
+  const props = Object.fromEntries(
+    Object.entries(options.props || {}).map(([key, definition]) => [
+      key,
+      normalizeProp(definition),
+    ]),
+  );
+  const attributes = new Map<string, string>();
+  Object.entries(props).forEach(([key, definition]) => {
+    if (definition.attribute !== false) {
+      attributes.set(definition.attribute || toAttributeName(key), key);
+    }
+  });
+  const styles = Array.isArray(options.styles)
+    ? options.styles.join("\n")
+    : options.styles || "";
+
+  class RynexElement extends HTMLElement {
+    static get observedAttributes(): string[] {
+      return Array.from(attributes.keys());
+    }
+
+    props: P;
+    private instance: ComponentInstance | null = null;
+
+    constructor() {
+      super();
+      const initial: Record<string, any> = {};
+      Object.entries(props).forEach(([key, definition]) => {
+        initial[key] = definition.default;
+      });
+      this.props = state(initial) as P;
+
+      // Properties set before the element was upgraded shadow the accessors
+      Object.keys(props).forEach((key) => {
+        if (Object.prototype.hasOwnProperty.call(this, key)) {
+          const value = (this as any)[key];
+          delete (this as any)[key];
+          (this as any)[key] = value;
+        }
+      });
+
+      if (options.shadow) {
+        this.attachShadow({ mode: "open" });
+      }
+    }
+
+    connectedCallback(): void {
+      if (this.instance) {
+        return;
+      }
+
+      const root = this.shadowRoot || this;
+      if (styles && this.shadowRoot) {
+        const style = document.createElement("style");
+        style.textContent = styles;
+        this.shadowRoot.appendChild(style);
+      } else if (styles && !styledTags.has(tag)) {
+        styledTags.add(tag);
+        const style = document.createElement("style");
+        style.setAttribute("data-rynex-element", tag);
+        style.textContent = styles;
+        document.head.appendChild(style);
+      }
+
+      const context: ElementContext = {
+        host: this,
+        emit: (name, detail, eventOptions = {}) =>
+          this.dispatchEvent(
+            new CustomEvent(name, {
+              bubbles: true,
+              composed: true,
+              ...eventOptions,
+              detail,
+            }),
+          ),
+      };
+
+      this.instance = render(() => component(this.props, context), root);
+      debugLog("Element", `<${tag}> mounted`);
+    }
+
+    disconnectedCallback(): void {
+      // Moving the element disconnects and reconnects it in the same task,
+      // so only tear down if it is still detached afterwards
+      queueMicrotask(() => {
+        if (this.isConnected || !this.instance) {
+          return;
+        }
+        this.instance.unmount();
+        this.instance = null;
+        if (this.shadowRoot) {
+          this.shadowRoot.replaceChildren();
+        }
+        debugLog("Element", `<${tag}> disposed`);
+      });
+    }
+
+    attributeChangedCallback(
+      name: string,
+      _oldValue: string | null,
+      value: string | null,
+    ): void {
+      const key = attributes.get(name);
+      if (key) {
+        (this.props as any)[key] = fromAttribute(value, props[key]);
+      }
+    }
+  }
+
+  Object.keys(props).forEach((key) => {
+    Object.defineProperty(RynexElement.prototype, key, {
+      configurable: true,
+      enumerable: true,
+      get(this: RynexElement) {
+        return (this.props as any)[key];
+      },
+      set(this: RynexElement, value: any) {
+        (this.props as any)[key] = value;
+      },
+    });
+  });
+
+  customElements.define(tag, RynexElement);
+  debugLog("Element", `Defined <${tag}>`);
+  return RynexElement;
+}
@@ -0,0 +1,983 @@
+/**
+ * Rynex DOM Shim
+ * Lightweight document for rendering on the server (Node, no jsdom)
+ * Covers what components build trees with: elements, text, comments,
+ * fragments, attributes, style, classList, dataset, form values, simple
+ * selectors and serialization. Events can be listened to but are never fired.
+ */
+
+import { escapeText, escapeAttribute } from "./escape.js";
+
+const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Children of these are written out verbatim
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+function toKebabCase(property: string): string {
+  if (property.startsWith("--")) {
+    return property;
+  }
+  if (property === "cssFloat") {
+    return "float";
+  }
+  const kebab = property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+  return /^(webkit|moz|ms)-/.test(kebab) ? `-${kebab}` : kebab;
+}
+
+class ShimNode extends EventTarget {
+  static ELEMENT_NODE = ELEMENT_NODE;
+  static TEXT_NODE = TEXT_NODE;
+  static COMMENT_NODE = COMMENT_NODE;
+  static DOCUMENT_NODE = DOCUMENT_NODE;
+  static DOCUMENT_FRAGMENT_NODE = DOCUMENT_FRAGMENT_NODE;
+
+  readonly ELEMENT_NODE = ELEMENT_NODE;
+  readonly TEXT_NODE = TEXT_NODE;
+  readonly COMMENT_NODE = COMMENT_NODE;
+
+  parentNode: ShimNode | null = null;
+  childNodes: ShimNode[] = [];
+
+  constructor(
+    readonly nodeType: number,
+    readonly nodeName: string,
+  ) {
+    super();
+  }
+
+  get firstChild(): ShimNode | null {
+    return this.childNodes[0] || null;
+  }
+
+  get lastChild(): ShimNode | null {
+    return this.childNodes[this.childNodes.length - 1] || null;
+  }
+
+  get nextSibling(): ShimNode | null {
+    const siblings = this.parentNode?.childNodes;
+    return siblings ? siblings[siblings.indexOf(this) + 1] || null : null;
+  }
+
+  get previousSibling(): ShimNode | null {
+    const siblings = this.parentNode?.childNodes;
+    return siblings ? siblings[siblings.indexOf(this) - 1] || null : null;
+  }
+
+  get parentElement(): ShimElement | null {
+    return this.parentNode instanceof ShimElement ? this.parentNode : null;
+  }
+
+  get isConnected(): boolean {
+    return this.parentNode
+      ? this.parentNode.isConnected
+      : this.nodeType === DOCUMENT_NODE;
+  }
+
+  get nodeValue(): string | null {
+    return null;
+  }
+
+  set nodeValue(_value: string | null) {}
+
+  get textContent(): string {
+    return this.childNodes
+      .filter((node) => node.nodeType !== COMMENT_NODE)
+      .map((node) => node.textContent)
+      .join("");
+  }
+
+  set textContent(value: string) {
+    this.replaceChildren();
+    if (value) {
+      this.appendChild(new ShimText(String(value)));
+    }
+  }
+
+  hasChildNodes(): boolean {
+    return this.childNodes.length > 0;
+  }
+
+  appendChild<T extends ShimNode>(child: T): T {
+    return this.insertBefore(child, null);
+  }
+
+  insertBefore<T extends ShimNode>(child: T, reference: ShimNode | null): T {
+    if (child.nodeType === DOCUMENT_FRAGMENT_NODE) {
+      child.childNodes
+        .slice()
+        .forEach((node) => this.insertBefore(node, reference));
+      return child;
+    }
+    if (reference && reference.parentNode !== this) {
+      throw new Error(
+        "The node before which the new node is to be inserted is not a child of this node",
+      );
+    }
+
+    child.parentNode?.removeChild(child);
+    if (reference) {
+      this.childNodes.splice(this.childNodes.indexOf(reference), 0, child);
+    } else {
+      this.childNodes.push(child);
+    }
+    child.parentNode = this;
+    return child;
+  }
+
+  removeChild<T extends ShimNode>(child: T): T {
+    const index = this.childNodes.indexOf(child);
+    if (index === -1) {
+      throw new Error("The node to be removed is not a child of this node");
+    }
+    this.childNodes.splice(index, 1);
+    child.parentNode = null;
+    return child;
+  }
+
+  replaceChild<T extends ShimNode>(child: ShimNode, old: T): T {
+    this.insertBefore(child, old);
+    return this.removeChild(old);
+  }
+
+  append(...nodes: Array<ShimNode | string>): void {
+    nodes.forEach((node) =>
+      this.appendChild(typeof node === "string" ? new ShimText(node) : node),
+    );
+  }
+
+  replaceChildren(...nodes: Array<ShimNode | string>): void {
+    this.childNodes.slice().forEach((node) => this.removeChild(node));
+    this.append(...nodes);
+  }
+
+  remove(): void {
+    this.parentNode?.removeChild(this);
+  }
+
+  contains(node: ShimNode | null): boolean {
+    while (node) {
+      if (node === this) {
+        return true;
+      }
+      node = node.parentNode;
+    }
+    return false;
+  }
+
+  cloneNode(deep = false): ShimNode {
+    const clone = this.cloneSelf();
+    if (deep) {
+      this.childNodes.forEach((node) =>
+        clone.appendChild(node.cloneNode(true)),
+      );
+    }
+    return clone;
+  }
+
+  protected cloneSelf(): ShimNode {
+    return new ShimNode(this.nodeType, this.nodeName);
+  }
+
+  toHTML(): string {
+    return this.childNodes.map((node) => node.toHTML()).join("");
+  }
+}
+
+class ShimCharacterData extends ShimNode {
+  constructor(
+    nodeType: number,
+    nodeName: string,
+    public data: string,
+  ) {
+    super(nodeType, nodeName);
+  }
+
+  get nodeValue(): string {
+    return this.data;
+  }
+
+  set nodeValue(value: string) {
+    this.data = String(value);
+  }
+
+  get textContent(): string {
+    return this.data;
+  }
+
+  set textContent(value: string) {
+    this.data = String(value);
+  }
+
+  get length(): number {
+    return this.data.length;
+  }
+}
+
+class ShimText extends ShimCharacterData {
+  constructor(data: string) {
+    super(TEXT_NODE, "#text", data);
+  }
+
+  protected cloneSelf(): ShimNode {
+    return new ShimText(this.data);
+  }
+
+  toHTML(): string {
+    const parent = this.parentElement;
+    return parent && RAW_TEXT_ELEMENTS.has(parent.localName)
+      ? this.data
+      : escapeText(this.data);
+  }
+}
+
+class ShimComment extends ShimCharacterData {
+  constructor(data: string) {
+    super(COMMENT_NODE, "#comment", data);
+  }
+
+  protected cloneSelf(): ShimNode {
+    return new ShimComment(this.data);
+  }
+
+  toHTML(): string {
+    return `<!--${this.data}-->`;
+  }
+}
+
+// Markup assigned through innerHTML; kept verbatim instead of being parsed
+class ShimRawHTML extends ShimText {
+  toHTML(): string {
+    return this.data;
+  }
+
+  get textContent(): string {
+    return this.data.replace(/<[^>]*>/g, "");
+  }
+
+  set textContent(value: string) {
+    this.data = escapeText(String(value));
+  }
+}
+
+class ShimDocumentFragment extends ShimNode {
+  constructor() {
+    super(DOCUMENT_FRAGMENT_NODE, "#document-fragment");
+  }
+
+  protected cloneSelf(): ShimNode {
+    return new ShimDocumentFragment();
+  }
+
+  querySelector(selector: string): ShimElement | null {
+    return querySelectorAll(this, selector)[0] || null;
+  }
+
+  querySelectorAll(selector: string): ShimElement[] {
+    return querySelectorAll(this, selector);
+  }
+}
+
+interface ShimAttribute {
+  name: string;
+  value: string;
+  namespaceURI: string | null;
+}
+
+function createStyle(element: ShimElement): any {
+  const entries = new Map<string, string>();
+  const api = {
+    setProperty(name: string, value: any) {
+      if (value === null || value === undefined || value === "") {
+        entries.delete(name);
+      } else {
+        entries.set(name, String(value));
+      }
+      element.syncStyle();
+    },
+    getPropertyValue(name: string) {
+      return entries.get(name) || "";
+    },
+    removeProperty(name: string) {
+      const previous = entries.get(name) || "";
+      entries.delete(name);
+      element.syncStyle();
+      return previous;
+    },
+    get cssText() {
+      return Array.from(entries, ([name, value]) => `${name}: ${value};`).join(
+        " ",
+      );
+    },
+    set cssText(text: string) {
+      entries.clear();
+      String(text)
+        .split(";")
+        .forEach((declaration) => {
+          const colon = declaration.indexOf(":");
+          if (colon > 0) {
+            entries.set(
+              declaration.slice(0, colon).trim(),
+              declaration.slice(colon + 1).trim(),
+            );
+          }
+        });
+      element.syncStyle();
+    },
+    get length() {
+      return entries.size;
+    },
+  };
+
+  return new Proxy(api, {
+    get(target, key) {
+      if (typeof key === "string" && !(key in target)) {
+        return entries.get(toKebabCase(key)) || "";
+      }
+      return Reflect.get(target, key);
+    },
+    set(target, key, value) {
+      if (typeof key === "string" && !(key in target)) {
+        api.setProperty(toKebabCase(key), value);
+        return true;
+      }
+      return Reflect.set(target, key, value);
+    },
+  });
+}
+
+class ShimElement extends ShimNode {
+  readonly localName: string;
+  readonly tagName: string;
+  readonly style: any;
+  scrollTop = 0;
+  scrollLeft = 0;
+  private attributeList: ShimAttribute[] = [];
+  private updatingStyle = false;
+
+  constructor(
+    readonly namespaceURI: string | null,
+    name: string,
+  ) {
+    super(
+      ELEMENT_NODE,
+      namespaceURI === HTML_NAMESPACE ? name.toUpperCase() : name,
+    );
+    this.localName = name;
+    this.tagName = this.nodeName;
+    this.style = createStyle(this);
+  }
+
+  // Called by the style object whenever a declaration changes
+  syncStyle(): void {
+    if (this.updatingStyle) {
+      return;
+    }
+    const cssText = this.style.cssText;
+    this.updatingStyle = true;
+    if (cssText) {
+      this.setAttribute("style", cssText);
+    } else {
+      this.removeAttribute("style");
+    }
+    this.updatingStyle = false;
+  }
+
+  get attributes(): ShimAttribute[] {
+    return this.attributeList.slice();
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributeList.find((a) => a.name === name)?.value ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.getAttribute(name) !== null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.setAttributeNS(null, name, value);
+  }
+
+  removeAttribute(name: string): void {
+    this.attributeList = this.attributeList.filter((a) => a.name !== name);
+    if (name === "style" && !this.updatingStyle) {
+      this.updatingStyle = true;
+      this.style.cssText = "";
+      this.updatingStyle = false;
+    }
+  }
+
+  toggleAttribute(name: string, force?: boolean): boolean {
+    const next = force === undefined ? !this.hasAttribute(name) : force;
+    if (next) {
+      this.setAttribute(name, this.getAttribute(name) ?? "");
+    } else {
+      this.removeAttribute(name);
+    }
+    return next;
+  }
+
+  getAttributeNS(_namespace: string | null, name: string): string | null {
+    return (
+      this.attributeList.find(
+        (a) => a.name === name || a.name.endsWith(`:${name}`),
+      )?.value ?? null
+    );
+  }
+
+  setAttributeNS(namespace: string | null, name: string, value: string): void {
+    const existing = this.attributeList.find((a) => a.name === name);
+    if (existing) {
+      existing.value = String(value);
+    } else {
+      this.attributeList.push({
+        name,
+        value: String(value),
+        namespaceURI: namespace,
+      });
+    }
+    if (name === "style" && !this.updatingStyle) {
+      this.updatingStyle = true;
+      this.style.cssText = String(value);
+      this.updatingStyle = false;
+    }
+  }
+
+  removeAttributeNS(_namespace: string | null, localName: string): void {
+    this.attributeList = this.attributeList.filter(
+      (a) => a.name !== localName && !a.name.endsWith(`:${localName}`),
+    );
+  }
+
+  get id(): string {
+    return this.getAttribute("id") || "";
+  }
+
+  set id(value: string) {
+    this.setAttribute("id", value);
+  }
+
+  get className(): string {
+    return this.getAttribute("class") || "";
+  }
+
+  set className(value: string) {
+    this.setAttribute("class", value);
+  }
+
+  get classList() {
+    const read = () => this.className.split(/\s+/).filter(Boolean);
+    const write = (classes: string[]) => {
+      this.className = Array.from(new Set(classes)).join(" ");
+    };
+    return {
+      add: (...names: string[]) => write([...read(), ...names]),
+      remove: (...names: string[]) =>
+        write(read().filter((name) => !names.includes(name))),
+      contains: (name: string) => read().includes(name),
+      toggle: (name: string, force?: boolean) => {
+        const next = force === undefined ? !read().includes(name) : force;
+        write(
+          next
+            ? [...read(), name]
+            : read().filter((existing) => existing !== name),
+        );
+        return next;
+      },
+      replace: (previous: string, next: string) => {
+        const classes = read();
+        const index = classes.indexOf(previous);
+        if (index === -1) {
+          return false;
+        }
+        classes[index] = next;
+        write(classes);
+        return true;
+      },
+      get length() {
+        return read().length;
+      },
+      get value() {
+        return read().join(" ");
+      },
+    };
+  }
+
+  get dataset(): Record<string, string> {
+    const toAttribute = (key: string) => `data-${toKebabCase(key)}`;
+    return new Proxy({} as Record<string, string>, {
+      get: (_target, key) =>
+        typeof key === "string"
+          ? (this.getAttribute(toAttribute(key)) ?? undefined)
+          : undefined,
+      set: (_target, key, value) => {
+        this.setAttribute(toAttribute(String(key)), String(value));
+        return true;
+      },
+      deleteProperty: (_target, key) => {
+        this.removeAttribute(toAttribute(String(key)));
+        return true;
+      },
+      has: (_target, key) => this.hasAttribute(toAttribute(String(key))),
+    });
+  }
+
+  get children(): ShimElement[] {
+    return this.childNodes.filter(
+      (node): node is ShimElement => node instanceof ShimElement,
+    );
+  }
+
+  get firstElementChild(): ShimElement | null {
+    return this.children[0] || null;
+  }
+
+  get lastElementChild(): ShimElement | null {
+    const children = this.children;
+    return children[children.length - 1] || null;
+  }
+
+  get childElementCount(): number {
+    return this.children.length;
+  }
+
+  get innerHTML(): string {
+    return super.toHTML();
+  }
+
+  set innerHTML(markup: string) {
+    this.replaceChildren();
+    if (markup) {
+      this.appendChild(new ShimRawHTML(String(markup)));
+    }
+  }
+
+  get outerHTML(): string {
+    return this.toHTML();
+  }
+
+  matches(selector: string): boolean {
+    return matchesSelector(this, selector);
+  }
+
+  closest(selector: string): ShimElement | null {
+    if (this.matches(selector)) {
+      return this;
+    }
+    return this.parentElement ? this.parentElement.closest(selector) : null;
+  }
+
+  querySelector(selector: string): ShimElement | null {
+    return querySelectorAll(this, selector)[0] || null;
+  }
+
+  querySelectorAll(selector: string): ShimElement[] {
+    return querySelectorAll(this, selector);
+  }
+
+  getElementsByTagName(name: string): ShimElement[] {
+    return querySelectorAll(this, name);
+  }
+
+  getBoundingClientRect() {
+    return {
+      x: 0,
+      y: 0,
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      width: 0,
+      height: 0,
+    };
+  }
+
+  focus(): void {}
+
+  blur(): void {}
+
+  click(): void {
+    this.dispatchEvent(new Event("click", { bubbles: true }));
+  }
+
+  protected cloneSelf(): ShimNode {
+    const clone = createShimElement(this.namespaceURI, this.localName);
+    this.attributeList.forEach((a) =>
+      clone.setAttributeNS(a.namespaceURI, a.name, a.value),
+    );
+    return clone;
+  }
+
+  toHTML(): string {
+    const attributes = this.attributeList
+      .map((a) => ` ${a.name}="${escapeAttribute(a.value)}"`)
+      .join("");
+    const open = `<${this.localName}${attributes}>`;
+    if (
+      this.namespaceURI === HTML_NAMESPACE &&
+      VOID_ELEMENTS.has(this.localName)
+    ) {
+      return open;
+    }
+    if (this.namespaceURI !== HTML_NAMESPACE && this.childNodes.length === 0) {
+      return `<${this.localName}${attributes}/>`;
+    }
+    return `${open}${super.toHTML()}</${this.localName}>`;
+  }
+}
+
+class ShimHTMLElement extends ShimElement {}
+class ShimHTMLUnknownElement extends ShimHTMLElement {}
+class ShimSVGElement extends ShimElement {}
+class ShimMathMLElement extends ShimElement {}
+
+// Form controls reflect their live state into attributes so it is serialized
+class ShimHTMLInputElement extends ShimHTMLElement {
+  get type(): string {
+    return this.getAttribute("type") || "text";
+  }
+
+  set type(value: string) {
+    this.setAttribute("type", value);
+  }
+
+  get value(): string {
+    return this.getAttribute("value") ?? "";
+  }
+
+  set value(value: string) {
+    this.setAttribute("value", String(value));
+  }
+
+  get checked(): boolean {
+    return this.hasAttribute("checked");
+  }
+
+  set checked(value: boolean) {
+    this.toggleAttribute("checked", !!value);
+  }
+
+  get disabled(): boolean {
+    return this.hasAttribute("disabled");
+  }
+
+  set disabled(value: boolean) {
+    this.toggleAttribute("disabled", !!value);
+  }
+}
+
+class ShimHTMLTextAreaElement extends ShimHTMLElement {
+  get value(): string {
+    return this.textContent;
+  }
+
+  set value(value: string) {
+    this.textContent = String(value);
+  }
+}
+
+class ShimHTMLOptionElement extends ShimHTMLElement {
+  get value(): string {
+    return this.getAttribute("value") ?? this.textContent;
+  }
+
+  set value(value: string) {
+    this.setAttribute("value", String(value));
+  }
+
+  get selected(): boolean {
+    return this.hasAttribute("selected");
+  }
+
+  set selected(value: boolean) {
+    this.toggleAttribute("selected", !!value);
+  }
+}
+
+class ShimHTMLSelectElement extends ShimHTMLElement {
+  get options(): ShimHTMLOptionElement[] {
+    return querySelectorAll(this, "option") as ShimHTMLOptionElement[];
+  }
+
+  get selectedOptions(): ShimHTMLOptionElement[] {
+    return this.options.filter((option) => option.selected);
+  }
+
+  get multiple(): boolean {
+    return this.hasAttribute("multiple");
+  }
+
+  get value(): string {
+    const options = this.options;
+    return (
+      (options.find((option) => option.selected) || options[0])?.value ?? ""
+    );
+  }
+
+  set value(value: string) {
+    this.options.forEach((option) => {
+      option.selected = option.value === String(value);
+    });
+  }
+}
+
+const HTML_ELEMENT_CLASSES: Record<string, typeof ShimHTMLElement> = {
+  input: ShimHTMLInputElement,
+  textarea: ShimHTMLTextAreaElement,
+  select: ShimHTMLSelectElement,
+  option: ShimHTMLOptionElement,
+};
+
+function createShimElement(
+  namespace: string | null,
+  name: string,
+): ShimElement {
+  if (namespace === SVG_NAMESPACE) {
+    return new ShimSVGElement(namespace, name);
+  }
+  if (namespace === MATHML_NAMESPACE) {
+    return new ShimMathMLElement(namespace, name);
+  }
+  if (namespace === HTML_NAMESPACE || namespace === null) {
+    const ElementClass = HTML_ELEMENT_CLASSES[name] || ShimHTMLElement;
+    return new ElementClass(HTML_NAMESPACE, name);
+  }
+  return new ShimElement(namespace, name);
+}
+
+/**
+ * Match one compound selector: tag, #id, .class and [attr] / [attr="value"]
+ */
+function matchesCompound(element: ShimElement, selector: string): boolean {
+  const parts = selector.match(/[#.]?[\w-]+|\[[^\]]+\]|\*/g) || [];
+  return parts.every((part) => {
+    if (part === "*") {
+      return true;
+    }
+    if (part.startsWith("#")) {
+      return element.id === part.slice(1);
+    }
+    if (part.startsWith(".")) {
+      return element.classList.contains(part.slice(1));
+    }
+    if (part.startsWith("[")) {
+      const [, name, value] =
+        part.match(/^\[\s*([\w:-]+)\s*(?:=\s*["']?([^"'\]]*)["']?)?\s*\]$/) ||
+        [];
+      if (!name) {
+        return false;
+      }
+      const actual = element.getAttribute(name);
+      return value === undefined ? actual !== null : actual === value;
+    }
+    return element.localName.toLowerCase() === part.toLowerCase();
+  });
+}
+
+/**
+ * Match a selector list; compound selectors may be joined by descendant
+ * combinators (whitespace). Other combinators are not supported.
+ */
+function matchesSelector(element: ShimElement, selector: string): boolean {
+  return selector.split(",").some((group) => {
+    const compounds = group.trim().split(/\s+/).filter(Boolean);
+    if (
+      compounds.length === 0 ||
+      !matchesCompound(element, compounds[compounds.length - 1])
+    ) {
+      return false;
+    }
+    let ancestor = element.parentElement;
+    for (let i = compounds.length - 2; i >= 0; i--) {
+      while (ancestor && !matchesCompound(ancestor, compounds[i])) {
+        ancestor = ancestor.parentElement;
+      }
+      if (!ancestor) {
+        return false;
+      }
+      ancestor = ancestor.parentElement;
+    }
+    return true;
+  });
+}
+
+function querySelectorAll(root: ShimNode, selector: string): ShimElement[] {
+  const found: ShimElement[] = [];
+  const walk = (node: ShimNode) => {
+    node.childNodes.forEach((child) => {
+      if (child instanceof ShimElement) {
+        if (matchesSelector(child, selector)) {
+          found.push(child);
+        }
+        walk(child);
+      }
+    });
+  };
+  walk(root);
+  return found;
+}
+
+class ShimDocument extends ShimNode {
+  readonly documentElement: ShimElement;
+  readonly head: ShimElement;
+  readonly body: ShimElement;
+  readonly activeElement = null;
+
+  constructor() {
+    super(DOCUMENT_NODE, "#document");
+    this.documentElement = this.createElement("html");
+    this.head = this.createElement("head");
+    this.body = this.createElement("body");
+    this.documentElement.append(this.head, this.body);
+    this.appendChild(this.documentElement);
+  }
+
+  get title(): string {
+    return this.head.querySelector("title")?.textContent || "";
+  }
+
+  set title(value: string) {
+    let title = this.head.querySelector("title");
+    if (!title) {
+      title = this.head.appendChild(this.createElement("title"));
+    }
+    title.textContent = value;
+  }
+
+  createElement(name: string): ShimElement {
+    return createShimElement(HTML_NAMESPACE, name.toLowerCase());
+  }
+
+  createElementNS(namespace: string | null, name: string): ShimElement {
+    return createShimElement(namespace, name);
+  }
+
+  createTextNode(data: string): ShimText {
+    return new ShimText(String(data));
+  }
+
+  createComment(data: string): ShimComment {
+    return new ShimComment(String(data));
+  }
+
+  createDocumentFragment(): ShimDocumentFragment {
+    return new ShimDocumentFragment();
+  }
+
+  getElementById(id: string): ShimElement | null {
+    return querySelectorAll(this, `[id="${id}"]`)[0] || null;
+  }
+
+  querySelector(selector: string): ShimElement | null {
+    return querySelectorAll(this, selector)[0] || null;
+  }
+
+  querySelectorAll(selector: string): ShimElement[] {
+    return querySelectorAll(this, selector);
+  }
+}
+
+class ShimMutationObserver {
+  observe(): void {}
+  disconnect(): void {}
+  takeRecords(): unknown[] {
+    return [];
+  }
+}
+
+// Globals set by installDOMShim(), removed again by uninstallDOMShim()
+const installedGlobals: string[] = [];
+
+/**
+ * Install the shim as the global document (and the DOM classes the runtime
+ * checks with instanceof) when no DOM is available
+ * Returns false if a real DOM, or an earlier shim, is already in place.
+ */
+export function installDOMShim(): boolean {
+  const scope = globalThis as any;
+  if (typeof scope.document !== "undefined") {
+    return false;
+  }
+
+  const document = new ShimDocument();
+  const globals: Record<string, unknown> = {
+    document,
+    Node: ShimNode,
+    Text: ShimText,
+    Comment: ShimComment,
+    DocumentFragment: ShimDocumentFragment,
+    Document: ShimDocument,
+    Element: ShimElement,
+    HTMLElement: ShimHTMLElement,
+    HTMLUnknownElement: ShimHTMLUnknownElement,
+    HTMLInputElement: ShimHTMLInputElement,
+    HTMLTextAreaElement: ShimHTMLTextAreaElement,
+    HTMLSelectElement: ShimHTMLSelectElement,
+    HTMLOptionElement: ShimHTMLOptionElement,
+    SVGElement: ShimSVGElement,
+    MathMLElement: ShimMathMLElement,
+    MutationObserver: ShimMutationObserver,
+    requestAnimationFrame: () => 0,
+    cancelAnimationFrame: () => {},
+  };
+  Object.entries(globals).forEach(([name, value]) => {
+    if (typeof scope[name] === "undefined") {
+      scope[name] = value;
+      installedGlobals.push(name);
+    }
+  });
+
+  if (typeof scope.window === "undefined") {
+    installedGlobals.push("window");
+    scope.window = {
+      document,
+      location: new URL("http://localhost/"),
+      innerWidth: 1024,
+      innerHeight: 768,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      matchMedia: (query: string) => ({
+        matches: false,
+        media: query,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+      }),
+    };
+  }
+  return true;
+}
+
+/**
+ * Remove the globals installDOMShim() set, so code running between server
+ * renders doesn't mistake Node for a browser
+ */
+export function uninstallDOMShim(): void {
+  const scope = globalThis as any;
+  installedGlobals.splice(0).forEach((name) => {
+    delete scope[name];
+  });
+}
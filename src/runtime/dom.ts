@@ -4,25 +4,43 @@
  * No Virtual DOM - just real DOM elements
  */
 
-import { debugLog } from "./debug.js";
+import { debugLog, debugWarn } from "./debug.js";
+import { effect } from "./state.js";
+import {
+  addHandler,
+  removeHandler,
+  moveHandlers,
+  delegateHandlers,
+  parseEventProp,
+  EventHandlerOptions,
+} from "./events.js";
+import { applyBinding, isBinding, Binding } from "./binding.js";
 
 export type DOMChild =
   | HTMLElement
   | SVGElement
+  | MathMLElement
   | Text
+  | Comment
+  | DocumentFragment
   | string
   | number
   | boolean
   | null
-  | undefined;
+  | undefined
+  | (() => DOMChildren);
 export type DOMChildren = DOMChild | DOMChild[];
 
 export interface DOMProps {
   [key: string]: any;
-  class?: string;
-  className?: string;
-  id?: string;
-  style?: string | Partial<CSSStyleDeclaration> | Record<string, any>;
+  class?: string | (() => string);
+  className?: string | (() => string);
+  id?: string | (() => string);
+  style?:
+    | string
+    | Partial<CSSStyleDeclaration>
+    | Record<string, any>
+    | (() => string | Partial<CSSStyleDeclaration> | Record<string, any>);
   onHover?: Partial<CSSStyleDeclaration> | Record<string, any>;
   onClick?: (event: MouseEvent) => void;
   onInput?: (event: Event) => void;
@@ -40,30 +58,266 @@ export interface DOMProps {
   onScroll?: (event: Event) => void;
   onDrag?: (event: DragEvent) => void;
   onDrop?: (event: DragEvent) => void;
-  ref?: { current: HTMLElement | null };
+  ref?: { current: HTMLElement | null } | ((element: HTMLElement) => void);
+  bind?: Binding;
+}
+
+export const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+export const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+// Tags that only exist in SVG, so they never need a parent to tell them apart
+const SVG_TAGS = new Set([
+  "svg",
+  "g",
+  "defs",
+  "symbol",
+  "use",
+  "path",
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+  "text",
+  "tspan",
+  "textPath",
+  "image",
+  "foreignObject",
+  "marker",
+  "mask",
+  "pattern",
+  "clipPath",
+  "linearGradient",
+  "radialGradient",
+  "stop",
+  "filter",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feImage",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+  "animate",
+  "animateMotion",
+  "animateTransform",
+  "mpath",
+  "set",
+  "desc",
+  "metadata",
+  "switch",
+  "view",
+]);
+
+const MATHML_TAGS = new Set([
+  "math",
+  "maction",
+  "annotation",
+  "annotation-xml",
+  "menclose",
+  "merror",
+  "mfrac",
+  "mi",
+  "mmultiscripts",
+  "mn",
+  "mo",
+  "mover",
+  "mpadded",
+  "mphantom",
+  "mprescripts",
+  "mroot",
+  "mrow",
+  "ms",
+  "mspace",
+  "msqrt",
+  "mstyle",
+  "msub",
+  "msubsup",
+  "msup",
+  "mtable",
+  "mtd",
+  "mtext",
+  "mtr",
+  "munder",
+  "munderover",
+  "semantics",
+]);
+
+// Tags valid in both HTML and SVG; they take the namespace of their parent
+const SHARED_TAGS = new Set(["a", "title", "script", "style"]);
+
+/**
+ * Namespace a tag belongs to on its own, or null for HTML
+ */
+function namespaceForTag(tag: string): string | null {
+  if (SVG_TAGS.has(tag)) {
+    return SVG_NAMESPACE;
+  }
+  if (MATHML_TAGS.has(tag)) {
+    return MATHML_NAMESPACE;
+  }
+  return null;
+}
+
+/**
+ * Create an element in a namespace, then apply props and children
+ */
+function createElementIn(
+  namespace: string | null,
+  tag: string,
+  props: DOMProps | null,
+  children: DOMChildren[],
+): Element {
+  const element = namespace
+    ? document.createElementNS(namespace, tag)
+    : document.createElement(tag);
+
+  // Apply props
+  if (props) {
+    applyProps(element as HTMLElement, props);
+  }
+
+  // Append children
+  appendChildren(element as HTMLElement, children);
+
+  debugLog("DOM", `Created element: ${tag}`);
+  return element;
 }
 
 /**
  * Create a real DOM element (vanilla JavaScript)
  * This is the core function that replaces the h() virtual DOM function
+ * SVG and MathML tags (circle, path, mi, ...) get their namespace
+ * automatically; tags shared with HTML follow the parent they are added to
  */
 export function createElement(
   tag: string,
   props: DOMProps | null = null,
   ...children: DOMChildren[]
 ): HTMLElement {
-  const element = document.createElement(tag);
+  return createElementIn(
+    namespaceForTag(tag),
+    tag,
+    props,
+    children,
+  ) as HTMLElement;
+}
 
-  // Apply props
-  if (props) {
-    applyProps(element, props);
+/**
+ * Create an SVG element explicitly
+ * Usage: svgElement('a', { 'xlink:href': '#target' }, svgElement('text', {}, 'Go'))
+ */
+export function svgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  props?: DOMProps | null,
+  ...children: DOMChildren[]
+): SVGElementTagNameMap[K];
+export function svgElement(
+  tag: string,
+  props?: DOMProps | null,
+  ...children: DOMChildren[]
+): SVGElement;
+export function svgElement(
+  tag: string,
+  props: DOMProps | null = null,
+  ...children: DOMChildren[]
+): SVGElement {
+  return createElementIn(SVG_NAMESPACE, tag, props, children) as SVGElement;
+}
+
+/**
+ * Create a MathML element explicitly
+ */
+export function mathElement(
+  tag: string,
+  props: DOMProps | null = null,
+  ...children: DOMChildren[]
+): MathMLElement {
+  return createElementIn(
+    MATHML_NAMESPACE,
+    tag,
+    props,
+    children,
+  ) as MathMLElement;
+}
+
+/**
+ * Namespace that children of `parent` should be created in, if not HTML
+ */
+function childNamespace(parent: Node): string | null {
+  if (!(parent instanceof Element)) {
+    return null;
+  }
+  if (parent.namespaceURI === SVG_NAMESPACE) {
+    return parent.localName === "foreignObject" ? null : SVG_NAMESPACE;
   }
+  if (parent.namespaceURI === MATHML_NAMESPACE) {
+    return parent.localName === "annotation-xml" ? null : MATHML_NAMESPACE;
+  }
+  return null;
+}
 
-  // Append children
-  appendChildren(element, children);
+/**
+ * Re-create an HTML element that ended up inside SVG or MathML (an `a` or
+ * `title` built before its parent existed) in the parent's namespace
+ */
+function moveToNamespace(element: Element, namespace: string): Element {
+  if (
+    element.namespaceURI !== HTML_NAMESPACE ||
+    !(
+      SHARED_TAGS.has(element.localName) ||
+      element instanceof HTMLUnknownElement
+    )
+  ) {
+    return element;
+  }
+  if (hasBindings(element)) {
+    debugWarn(
+      "DOM",
+      `<${element.localName}> has reactive bindings and cannot change namespace; create it with svgElement() instead`,
+    );
+    return element;
+  }
 
-  debugLog("DOM", `Created element: ${tag}`);
-  return element;
+  const replacement = document.createElementNS(namespace, element.localName);
+  for (const attribute of Array.from(element.attributes)) {
+    replacement.setAttributeNS(
+      attribute.namespaceURI,
+      attribute.name,
+      attribute.value,
+    );
+  }
+  while (element.firstChild) {
+    const child = element.firstChild;
+    replacement.appendChild(
+      child instanceof Element ? moveToNamespace(child, namespace) : child,
+    );
+  }
+  adoptProps(element, replacement);
+  element.parentNode?.replaceChild(replacement, element);
+  return replacement;
 }
 
 /**
@@ -73,50 +327,144 @@ export function createTextNode(text: string | number): Text {
   return document.createTextNode(String(text));
 }
 
+/**
+ * What applyProps attached to an element, so morphing can carry it over to
+ * the node that stays in the document
+ */
+interface PropRecord {
+  ref?: any;
+  value?: unknown;
+  checked?: unknown;
+}
+
+const propRecords = new WeakMap<Element, PropRecord>();
+
+// Nodes that reactive effects write to directly
+const boundNodes = new WeakSet<Node>();
+
+function getPropRecord(element: Element): PropRecord {
+  let record = propRecords.get(element);
+  if (!record) {
+    record = {};
+    propRecords.set(element, record);
+  }
+  return record;
+}
+
+/**
+ * Value or checked state last rendered into a form control through props
+ */
+export function getRenderedValue(
+  element: Element,
+  key: "value" | "checked",
+): unknown {
+  return propRecords.get(element)?.[key];
+}
+
+/**
+ * Move event handlers, ref and rendered form values from `source` onto
+ * `target`, releasing the handlers `target` had before
+ */
+export function adoptProps(source: Element, target: Element): void {
+  moveHandlers(source, target);
+
+  const record = propRecords.get(source);
+  if (!record) {
+    propRecords.delete(target);
+    return;
+  }
+
+  if (typeof record.ref === "function") {
+    record.ref(target);
+  } else if (record.ref) {
+    record.ref.current = target;
+  }
+  propRecords.set(target, record);
+  propRecords.delete(source);
+}
+
+// Anchor comment -> nodes its region last rendered before it
+const regions = new WeakMap<Node, () => Node[]>();
+
+/**
+ * Register the nodes an anchored region (reactive child, Show, each) renders
+ * before its anchor, so an enclosing region can remove them with it
+ */
+export function trackRegion(anchor: Node, rendered: () => Node[]): void {
+  regions.set(anchor, rendered);
+}
+
+/**
+ * Nodes rendered by a region, plus whatever nested regions among them have
+ * rendered since
+ */
+export function regionNodes(rendered: Node[]): Node[] {
+  const nodes = new Set<Node>();
+  const visit = (node: Node) => {
+    if (nodes.has(node)) {
+      return;
+    }
+    regions.get(node)?.().forEach(visit);
+    nodes.add(node);
+  };
+  rendered.forEach(visit);
+  return Array.from(nodes);
+}
+
+/**
+ * Flag a node as the target of a reactive binding
+ */
+export function markBound(node: Node): void {
+  boundNodes.add(node);
+}
+
+/**
+ * Whether reactive effects write to this node, or to an anchor among its
+ * children. Such nodes cannot be patched in place without losing updates.
+ */
+export function hasBindings(node: Node): boolean {
+  if (boundNodes.has(node)) {
+    return true;
+  }
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === Node.COMMENT_NODE && boundNodes.has(child)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Apply properties to a DOM element
+ * Function values (other than on* handlers and ref) are reactive bindings:
+ * each gets its own effect that updates only that attribute or style entry.
+ * bind is wired last, so it sees the final type, multiple and value props.
  */
-export function applyProps(element: HTMLElement, props: DOMProps): void {
+export function applyProps(
+  element: HTMLElement | SVGElement,
+  props: DOMProps,
+): void {
+  let binding: Binding | null = null;
+
   for (const [key, value] of Object.entries(props)) {
     if (value === null || value === undefined) {
       continue;
     }
 
-    // Handle event listeners
+    // Handle event listeners (onClick, onKeyDown:enter:prevent, ...)
     if (key.startsWith("on") && typeof value === "function") {
-      const eventName = key.slice(2).toLowerCase();
-      element.addEventListener(eventName, value as EventListener);
+      const { eventName, modifiers } = parseEventProp(key);
+      addHandler(element, eventName, value as EventListener, {}, modifiers);
       debugLog("DOM", `Added event listener: ${eventName}`);
     }
-    // Handle class/className
-    else if (key === "class" || key === "className") {
-      element.className = value;
-    }
-    // Handle style
-    else if (key === "style") {
-      if (typeof value === "string") {
-        element.setAttribute("style", value);
-      } else if (typeof value === "object") {
-        // Apply styles with proper camelCase to kebab-case conversion
-        for (const [styleKey, styleValue] of Object.entries(value)) {
-          if (styleValue !== null && styleValue !== undefined) {
-            // Convert camelCase to kebab-case for CSS properties
-            const cssKey = styleKey.replace(
-              /[A-Z]/g,
-              (match) => `-${match.toLowerCase()}`,
-            );
-            (element.style as any)[styleKey] = styleValue;
-          }
-        }
-      }
-    }
     // Handle hover styles
     else if (key === "onHover" && typeof value === "object") {
       const hoverStyles = value;
-      element.addEventListener("mouseenter", () => {
+      addHandler(element, "mouseenter", (event) => {
+        const target = event.currentTarget as HTMLElement;
         for (const [styleKey, styleValue] of Object.entries(hoverStyles)) {
           if (styleValue !== null && styleValue !== undefined) {
-            (element.style as any)[styleKey] = styleValue;
+            (target.style as any)[styleKey] = styleValue;
           }
         }
       });
@@ -125,35 +473,114 @@ export function applyProps(element: HTMLElement, props: DOMProps): void {
       for (const styleKey of Object.keys(hoverStyles)) {
         originalStyles[styleKey] = (element.style as any)[styleKey];
       }
-      element.addEventListener("mouseleave", () => {
+      addHandler(element, "mouseleave", (event) => {
+        const target = event.currentTarget as HTMLElement;
         for (const [styleKey, styleValue] of Object.entries(originalStyles)) {
-          (element.style as any)[styleKey] = styleValue;
+          (target.style as any)[styleKey] = styleValue;
         }
       });
     }
-    // Handle ref
-    else if (key === "ref" && typeof value === "object" && "current" in value) {
-      value.current = element;
+    // Two-way binding, wired after the loop
+    else if (key === "bind" && isBinding(value)) {
+      binding = value;
     }
-    // Handle special properties
-    else if (key === "value") {
-      (element as any).value = value;
-    } else if (key === "checked") {
-      (element as any).checked = value;
+    // Handle ref
+    else if (key === "ref") {
+      getPropRecord(element).ref = value;
+      if (typeof value === "function") {
+        value(element);
+      } else if (typeof value === "object" && "current" in value) {
+        value.current = element;
+      }
     }
-    // Handle data attributes
-    else if (key.startsWith("data-")) {
-      element.setAttribute(key, String(value));
+    // Reactive binding
+    else if (typeof value === "function") {
+      const getter = value as () => any;
+      effect(() => {
+        const next = getter();
+        if (next === null || next === undefined || next === false) {
+          removeProp(element, key, undefined);
+        } else {
+          applyProp(element, key, next);
+        }
+      });
+      markBound(element);
+      debugLog("DOM", `Bound reactive prop: ${key}`);
+    } else {
+      applyProp(element, key, value);
     }
-    // Handle aria attributes
-    else if (key.startsWith("aria-")) {
-      element.setAttribute(key, String(value));
+  }
+
+  // Two-way binding: { bind: bind(form, 'email') }
+  if (binding) {
+    applyBinding(element as HTMLElement, binding);
+    markBound(element);
+  }
+}
+
+/**
+ * Apply a single resolved (non-event) property value
+ */
+function applyProp(
+  element: HTMLElement | SVGElement,
+  key: string,
+  value: any,
+): void {
+  // Handle class/className (SVG className is not a plain string)
+  if (key === "class" || key === "className") {
+    if (element instanceof HTMLElement) {
+      element.className = value;
+    } else {
+      element.setAttribute("class", value);
     }
-    // Handle other attributes
-    else {
-      element.setAttribute(key, String(value));
+  }
+  // Handle style
+  else if (key === "style") {
+    if (typeof value === "string") {
+      element.setAttribute("style", value);
+    } else if (typeof value === "object") {
+      // Apply styles with proper camelCase to kebab-case conversion
+      for (const [styleKey, styleValue] of Object.entries(value)) {
+        if (typeof styleValue === "function") {
+          // Reactive style entry
+          effect(() => {
+            const next = styleValue();
+            (element.style as any)[styleKey] =
+              next === null || next === undefined ? "" : next;
+          });
+          markBound(element);
+        } else if (styleValue !== null && styleValue !== undefined) {
+          (element.style as any)[styleKey] = styleValue;
+        }
+      }
     }
   }
+  // Handle special properties
+  else if (key === "value") {
+    (element as any).value = value;
+    getPropRecord(element).value = value;
+  } else if (key === "checked") {
+    (element as any).checked = value;
+    getPropRecord(element).checked = value;
+  }
+  // Handle data attributes
+  else if (key.startsWith("data-")) {
+    element.setAttribute(key, String(value));
+  }
+  // Handle aria attributes
+  else if (key.startsWith("aria-")) {
+    element.setAttribute(key, String(value));
+  }
+  // Handle namespaced attributes (xlink:href, xml:lang)
+  else if (key.startsWith("xlink:")) {
+    element.setAttributeNS(XLINK_NAMESPACE, key, String(value));
+  } else if (key.startsWith("xml:")) {
+    element.setAttributeNS(XML_NAMESPACE, key, String(value));
+  }
+  // Handle other attributes
+  else {
+    element.setAttribute(key, String(value));
+  }
 }
 
 /**
@@ -176,8 +603,8 @@ export function updateProps(
     if (oldProps[key] !== newProps[key]) {
       // Remove old event listener if it's an event
       if (key.startsWith("on") && typeof oldProps[key] === "function") {
-        const eventName = key.slice(2).toLowerCase();
-        element.removeEventListener(eventName, oldProps[key] as EventListener);
+        const { eventName } = parseEventProp(key);
+        removeHandler(element, eventName, oldProps[key] as EventListener);
       }
 
       // Apply new prop
@@ -190,17 +617,25 @@ export function updateProps(
  * Remove a property from a DOM element
  */
 export function removeProp(
-  element: HTMLElement,
+  element: HTMLElement | SVGElement,
   key: string,
   value: any,
 ): void {
   if (key.startsWith("on") && typeof value === "function") {
-    const eventName = key.slice(2).toLowerCase();
-    element.removeEventListener(eventName, value as EventListener);
+    const { eventName } = parseEventProp(key);
+    removeHandler(element, eventName, value as EventListener);
   } else if (key === "class" || key === "className") {
-    element.className = "";
+    element.removeAttribute("class");
+  } else if (key.startsWith("xlink:")) {
+    element.removeAttributeNS(XLINK_NAMESPACE, key.slice(6));
+  } else if (key.startsWith("xml:")) {
+    element.removeAttributeNS(XML_NAMESPACE, key.slice(4));
   } else if (key === "style") {
     element.removeAttribute("style");
+  } else if (key === "value") {
+    (element as any).value = "";
+  } else if (key === "checked") {
+    (element as any).checked = false;
   } else if (key !== "ref") {
     element.removeAttribute(key);
   }
@@ -210,10 +645,11 @@ export function removeProp(
  * Append children to a DOM element
  */
 export function appendChildren(
-  parent: HTMLElement | SVGElement,
+  parent: HTMLElement | SVGElement | MathMLElement | DocumentFragment,
   children: DOMChildren[],
 ): void {
   const flatChildren = children.flat(Infinity) as DOMChild[];
+  const namespace = childNamespace(parent);
 
   for (const child of flatChildren) {
     if (
@@ -227,16 +663,93 @@ export function appendChildren(
 
     if (typeof child === "string" || typeof child === "number") {
       parent.appendChild(createTextNode(child));
+    } else if (typeof child === "function") {
+      appendReactiveChild(parent, child);
+    } else if (child instanceof Element) {
+      parent.appendChild(namespace ? moveToNamespace(child, namespace) : child);
     } else if (
-      child instanceof HTMLElement ||
-      child instanceof SVGElement ||
-      child instanceof Text
+      child instanceof Text ||
+      child instanceof Comment ||
+      child instanceof DocumentFragment
     ) {
       parent.appendChild(child);
     }
   }
 }
 
+/**
+ * Turn a resolved child value into DOM nodes
+ */
+function toNodes(value: DOMChildren): Node[] {
+  const nodes: Node[] = [];
+  const flat = (Array.isArray(value) ? value.flat(Infinity) : [value]) as any[];
+
+  for (const child of flat) {
+    if (
+      child === null ||
+      child === undefined ||
+      child === false ||
+      child === true
+    ) {
+      continue;
+    }
+    if (typeof child === "string" || typeof child === "number") {
+      nodes.push(createTextNode(child));
+    } else if (typeof child === "function") {
+      // Nested getter: give it its own fragment-hosted binding
+      const fragment = document.createDocumentFragment();
+      appendReactiveChild(fragment, child);
+      nodes.push(...Array.from(fragment.childNodes));
+    } else if (child instanceof DocumentFragment) {
+      // A fragment empties on insertion; track the nodes it carries instead
+      nodes.push(...Array.from(child.childNodes));
+    } else if (child instanceof Node) {
+      nodes.push(child);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Reactive child: a getter whose result is kept in place between a comment
+ * anchor's previous siblings. Text results update the existing text node;
+ * node results replace only what this getter rendered last time.
+ */
+function appendReactiveChild(parent: Node, getter: () => DOMChildren): void {
+  const anchor = document.createComment("");
+  parent.appendChild(anchor);
+  markBound(anchor);
+  let current: Node[] = [];
+  trackRegion(anchor, () => current);
+
+  effect(() => {
+    const value = getter();
+
+    // Fast path: text stays text, only its data changes
+    if (
+      (typeof value === "string" || typeof value === "number") &&
+      current.length === 1 &&
+      current[0] instanceof Text
+    ) {
+      (current[0] as Text).data = String(value);
+      return;
+    }
+
+    const next = toNodes(value);
+    const host = anchor.parentNode;
+    if (!host) {
+      return;
+    }
+    regionNodes(current).forEach((node) => {
+      if (!next.includes(node) && node.parentNode === host) {
+        host.removeChild(node);
+      }
+    });
+    next.forEach((node) => host.insertBefore(node, anchor));
+    current = next;
+  });
+}
+
 /**
  * Replace all children of an element
  */
@@ -255,9 +768,14 @@ export function replaceChildren(
 
 /**
  * Mount an element to a container
+ * Handlers added while the tree was detached switch to root delegation
  */
-export function mount(element: HTMLElement, container: HTMLElement): void {
+export function mount(
+  element: HTMLElement,
+  container: HTMLElement | ShadowRoot,
+): void {
   container.appendChild(element);
+  delegateHandlers(element);
   debugLog("DOM", "Mounted element to container");
 }
 
@@ -265,8 +783,8 @@ export function mount(element: HTMLElement, container: HTMLElement): void {
  * Unmount an element from its parent
  */
 export function unmount(element: HTMLElement): void {
-  if (element.parentElement) {
-    element.parentElement.removeChild(element);
+  if (element.parentNode) {
+    element.parentNode.removeChild(element);
     debugLog("DOM", "Unmounted element");
   }
 }
@@ -352,16 +870,15 @@ export function setAttributes(
 
 /**
  * Add event listener helper
+ * Goes through the delegated event system; released with the current scope
  */
 export function on<K extends keyof HTMLElementEventMap>(
   element: HTMLElement,
   event: K,
   handler: (event: HTMLElementEventMap[K]) => void,
-  options?: AddEventListenerOptions,
+  options?: EventHandlerOptions,
 ): () => void {
-  element.addEventListener(event, handler as EventListener, options);
-  return () =>
-    element.removeEventListener(event, handler as EventListener, options);
+  return addHandler(element, event, handler as EventListener, options);
 }
 
 /**
@@ -372,5 +889,6 @@ export function off<K extends keyof HTMLElementEventMap>(
   event: K,
   handler: (event: HTMLElementEventMap[K]) => void,
 ): void {
+  removeHandler(element, event, handler as EventListener);
   element.removeEventListener(event, handler as EventListener);
 }
@@ -432,9 +432,11 @@ export const validators = {
         child === true ||
         typeof child === "string" ||
         typeof child === "number" ||
-        child instanceof HTMLElement ||
-        child instanceof SVGElement ||
-        child instanceof Text
+        typeof child === "function" ||
+        child instanceof Element ||
+        child instanceof Text ||
+        child instanceof Comment ||
+        child instanceof DocumentFragment
       );
     };
 
@@ -443,14 +445,14 @@ export const validators = {
       for (let i = 0; i < flatChildren.length; i++) {
         if (!validateChild(flatChildren[i])) {
           throw new ValidationError(
-            `Invalid child at index ${i}: expected HTMLElement, string, number, or null/undefined but received ${typeof flatChildren[i]}`,
+            `Invalid child at index ${i}: expected HTMLElement, string, number, getter function, or null/undefined but received ${typeof flatChildren[i]}`,
             { fieldName, index: i, child: flatChildren[i], ...context },
           );
         }
       }
     } else if (!validateChild(children)) {
       throw new ValidationError(
-        `${fieldName} must be a valid DOM child (HTMLElement, string, number, or null/undefined) but received ${typeof children}`,
+        `${fieldName} must be a valid DOM child (HTMLElement, string, number, getter function, or null/undefined) but received ${typeof children}`,
         { fieldName, children, ...context },
       );
     }
@@ -0,0 +1,16 @@
+/**
+ * Rynex HTML Escaping
+ * Shared by the server DOM shim and head serialization, kept separate so
+ * browser bundles importing head() don't pull in the shim
+ */
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
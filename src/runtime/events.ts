@@ -0,0 +1,396 @@
+/**
+ * Rynex Event System
+ * Delegated event handling with per-element handler storage
+ * Common bubbling events share one listener on the root node (document or
+ * shadow root) of connected elements. Builders create elements detached, so
+ * their handlers listen on the element itself until mount() or the router
+ * puts the tree in the document and delegateHandlers() moves them to the
+ * root; elements inserted any other way, and events that stay inside their
+ * shadow root, keep listening on the element. Either way handlers run in
+ * bubbling order; they are kept per element and released with the scope
+ * that registered them.
+ */
+
+import { getOwner, onCleanup } from "./state.js";
+import { debugLog, debugWarn } from "./debug.js";
+
+export interface EventHandlerOptions {
+  capture?: boolean;
+  passive?: boolean;
+  once?: boolean;
+}
+
+interface HandlerEntry {
+  element: Element;
+  eventName: string;
+  handler: EventListener;
+  listener: EventListener;
+  delegated: boolean;
+  // Node whose listener dispatches a delegated entry: its root, or itself
+  target: Node | null;
+  capture: boolean;
+  passive: boolean;
+}
+
+// Bubbling events handled by a single listener on the root node
+const DELEGATED_EVENTS = new Set([
+  "click",
+  "dblclick",
+  "contextmenu",
+  "input",
+  "change",
+  "submit",
+  "keydown",
+  "keyup",
+  "mousedown",
+  "mouseup",
+  "mouseover",
+  "mouseout",
+  "mousemove",
+  "pointerdown",
+  "pointerup",
+  "pointermove",
+  "touchstart",
+  "touchend",
+  "focusin",
+  "focusout",
+]);
+
+// Events that never leave their shadow root, so a root listener set up
+// before the element moved into one would miss them
+const NON_COMPOSED_EVENTS = new Set(["change", "submit"]);
+
+// Prop names that do not lowercase to a DOM event name
+const EVENT_ALIASES: Record<string, string> = {
+  doubleclick: "dblclick",
+};
+
+const KEY_MODIFIERS: Record<string, string[]> = {
+  enter: ["Enter"],
+  esc: ["Escape", "Esc"],
+  escape: ["Escape", "Esc"],
+  space: [" ", "Spacebar"],
+  tab: ["Tab"],
+  up: ["ArrowUp"],
+  down: ["ArrowDown"],
+  left: ["ArrowLeft"],
+  right: ["ArrowRight"],
+  delete: ["Delete", "Backspace"],
+  backspace: ["Backspace"],
+};
+
+const SYSTEM_MODIFIERS = ["ctrl", "alt", "shift", "meta"] as const;
+
+const OPTION_MODIFIERS = ["capture", "passive", "once"] as const;
+
+const GUARD_MODIFIERS = ["prevent", "stop", "self"];
+
+const handlerStore = new WeakMap<Element, HandlerEntry[]>();
+const delegatedTypes = new WeakMap<Node, Set<string>>();
+// Index in the event path up to which delegated handlers already ran
+const dispatchProgress = new WeakMap<Event, number>();
+
+/**
+ * Split an event prop into event name and modifiers
+ * onClick -> click, onKeyDown:enter:prevent -> keydown + [enter, prevent]
+ */
+export function parseEventProp(key: string): {
+  eventName: string;
+  modifiers: string[];
+} {
+  const [name, ...modifiers] = key.split(":");
+  const eventName = name.slice(2).toLowerCase();
+  return {
+    eventName: EVENT_ALIASES[eventName] || eventName,
+    modifiers: modifiers.map((modifier) => modifier.toLowerCase()),
+  };
+}
+
+/**
+ * Walk the composed path from where the last dispatch stopped up to the
+ * node whose listener fired, running delegated handlers the way native
+ * bubbling would, until propagation is stopped
+ */
+function dispatchDelegated(event: Event): void {
+  const listening = event.currentTarget;
+  const path = event.composedPath
+    ? event.composedPath()
+    : buildPath(event.target as Node | null);
+  const start = dispatchProgress.get(event) ?? 0;
+  const index = listening ? path.indexOf(listening) : -1;
+  const end = index === -1 ? path.length - 1 : index;
+  if (start > end) {
+    return;
+  }
+  dispatchProgress.set(event, end + 1);
+  let current: EventTarget | null = null;
+
+  Object.defineProperty(event, "currentTarget", {
+    configurable: true,
+    get: () => current,
+  });
+
+  try {
+    for (let i = start; i <= end; i++) {
+      const node = path[i];
+      const entries = handlerStore.get(node as Element);
+      if (!entries) {
+        continue;
+      }
+      current = node;
+      for (const entry of entries.slice()) {
+        if (entry.delegated && entry.eventName === event.type) {
+          entry.listener.call(node, event);
+        }
+      }
+      if (event.cancelBubble) {
+        dispatchProgress.set(event, path.length);
+        break;
+      }
+    }
+  } finally {
+    // Restore the native getter for listeners that run after ours
+    delete (event as any).currentTarget;
+  }
+}
+
+function buildPath(node: Node | null): EventTarget[] {
+  const path: EventTarget[] = [];
+  while (node) {
+    path.push(node);
+    node = node.parentNode;
+  }
+  return path;
+}
+
+/**
+ * Node that listens for a delegated entry
+ */
+function delegationTarget(element: Element, eventName: string): Node {
+  if (!element.isConnected || NON_COMPOSED_EVENTS.has(eventName)) {
+    return element;
+  }
+  return element.getRootNode();
+}
+
+function ensureDelegated(root: Node, eventName: string): void {
+  let types = delegatedTypes.get(root);
+  if (!types) {
+    types = new Set();
+    delegatedTypes.set(root, types);
+  }
+  if (types.has(eventName)) {
+    return;
+  }
+  types.add(eventName);
+  root.addEventListener(eventName, dispatchDelegated);
+  debugLog("Events", `Delegating ${eventName} at ${root.nodeName}`);
+}
+
+/**
+ * Wrap a handler so key, system and guard modifiers decide whether it runs
+ * `once` counts only calls that pass the modifiers.
+ */
+function createListener(
+  entry: HandlerEntry,
+  modifiers: string[],
+  once: boolean,
+): EventListener {
+  const keys = modifiers.filter((modifier) => modifier in KEY_MODIFIERS);
+  const systemKeys = SYSTEM_MODIFIERS.filter((modifier) =>
+    modifiers.includes(modifier),
+  );
+
+  return function (this: Element, event: Event) {
+    if (modifiers.includes("self") && event.target !== event.currentTarget) {
+      return;
+    }
+    if (systemKeys.some((modifier) => !(event as any)[`${modifier}Key`])) {
+      return;
+    }
+    if (
+      keys.length > 0 &&
+      !keys.some((modifier) =>
+        KEY_MODIFIERS[modifier].includes((event as KeyboardEvent).key),
+      )
+    ) {
+      return;
+    }
+
+    if (modifiers.includes("prevent")) {
+      event.preventDefault();
+    }
+    if (modifiers.includes("stop")) {
+      event.stopPropagation();
+    }
+    if (once) {
+      removeEntry(entry);
+    }
+    entry.handler.call(this, event);
+  };
+}
+
+function attach(entry: HandlerEntry): void {
+  if (entry.delegated) {
+    entry.target = delegationTarget(entry.element, entry.eventName);
+    if (entry.target === entry.element) {
+      // Repeated registrations of the same listener are ignored by the DOM
+      entry.element.addEventListener(entry.eventName, dispatchDelegated);
+    } else {
+      ensureDelegated(entry.target, entry.eventName);
+    }
+  } else {
+    entry.element.addEventListener(entry.eventName, entry.listener, {
+      capture: entry.capture,
+      passive: entry.passive,
+    });
+  }
+
+  const entries = handlerStore.get(entry.element);
+  if (entries) {
+    entries.push(entry);
+  } else {
+    handlerStore.set(entry.element, [entry]);
+  }
+}
+
+function removeEntry(entry: HandlerEntry): void {
+  const entries = handlerStore.get(entry.element);
+  const index = entries ? entries.indexOf(entry) : -1;
+  if (!entries || index === -1) {
+    return;
+  }
+
+  entries.splice(index, 1);
+  if (entries.length === 0) {
+    handlerStore.delete(entry.element);
+  }
+  if (!entry.delegated) {
+    entry.element.removeEventListener(entry.eventName, entry.listener, {
+      capture: entry.capture,
+    });
+  } else if (
+    entry.target === entry.element &&
+    !entries.some(
+      (other) =>
+        other.delegated &&
+        other.target === entry.element &&
+        other.eventName === entry.eventName,
+    )
+  ) {
+    entry.element.removeEventListener(entry.eventName, dispatchDelegated);
+  }
+}
+
+/**
+ * Register an event handler on an element
+ * Bubbling events are delegated unless capture or passive is requested.
+ * Inside a reactive scope the handler is released when the scope is disposed.
+ * Returns a function that removes the handler.
+ */
+export function addHandler(
+  element: Element,
+  eventName: string,
+  handler: EventListener,
+  options: EventHandlerOptions = {},
+  modifiers: string[] = [],
+): () => void {
+  modifiers.forEach((modifier) => {
+    if (
+      !(modifier in KEY_MODIFIERS) &&
+      !(SYSTEM_MODIFIERS as readonly string[]).includes(modifier) &&
+      !(OPTION_MODIFIERS as readonly string[]).includes(modifier) &&
+      !GUARD_MODIFIERS.includes(modifier)
+    ) {
+      debugWarn("Events", `Unknown event modifier "${modifier}" ignored`);
+    }
+  });
+
+  const capture = options.capture || modifiers.includes("capture");
+  const passive = options.passive || modifiers.includes("passive");
+  const once = options.once || modifiers.includes("once");
+
+  const entry: HandlerEntry = {
+    element,
+    eventName,
+    handler,
+    listener: handler,
+    delegated: DELEGATED_EVENTS.has(eventName) && !capture && !passive,
+    target: null,
+    capture,
+    passive,
+  };
+  entry.listener = createListener(entry, modifiers, once);
+  attach(entry);
+
+  const remove = () => removeEntry(entry);
+  if (getOwner()) {
+    onCleanup(remove);
+  }
+  return remove;
+}
+
+/**
+ * Remove a handler previously registered with addHandler
+ */
+export function removeHandler(
+  element: Element,
+  eventName: string,
+  handler: EventListener,
+): void {
+  handlerStore
+    .get(element)
+    ?.filter(
+      (entry) => entry.eventName === eventName && entry.handler === handler,
+    )
+    .forEach(removeEntry);
+}
+
+/**
+ * Release every handler registered on an element
+ */
+export function releaseHandlers(element: Element): void {
+  handlerStore.get(element)?.slice().forEach(removeEntry);
+}
+
+/**
+ * Move handlers in a newly connected tree that listen on their own element
+ * onto the shared listener of the tree's root node
+ */
+export function delegateHandlers(element: Element): void {
+  if (!element.isConnected) {
+    return;
+  }
+  const root = element.getRootNode();
+  [element, ...Array.from(element.querySelectorAll("*"))].forEach((node) => {
+    handlerStore.get(node)?.forEach((entry) => {
+      if (
+        entry.delegated &&
+        entry.target === node &&
+        !NON_COMPOSED_EVENTS.has(entry.eventName)
+      ) {
+        node.removeEventListener(entry.eventName, dispatchDelegated);
+        entry.target = root;
+        ensureDelegated(root, entry.eventName);
+      }
+    });
+  });
+}
+
+/**
+ * Move all handlers from `source` to `target`, releasing the ones `target`
+ * had before. Used when morphing keeps the old node in the document.
+ */
+export function moveHandlers(source: Element, target: Element): void {
+  releaseHandlers(target);
+
+  const entries = handlerStore.get(source);
+  if (!entries) {
+    return;
+  }
+  entries.slice().forEach((entry) => {
+    removeEntry(entry);
+    entry.element = target;
+    attach(entry);
+  });
+}
@@ -0,0 +1,337 @@
+/**
+ * Rynex Head Management
+ * head() sets the document title and meta, link and script tags for as long
+ * as the calling component is mounted; renderHead() serializes them, and
+ * collectHead() gathers them per server render
+ */
+
+import { effect, getOwner, onCleanup } from "./state.js";
+import { escapeText, escapeAttribute } from "./escape.js";
+import { debugLog } from "./debug.js";
+
+type HeadAttributes = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+export type MetaTag = HeadAttributes;
+export type LinkTag = HeadAttributes & { rel: string };
+// Inline scripts (e.g. JSON-LD) pass their source as textContent
+export type ScriptTag = HeadAttributes & { textContent?: string };
+
+export interface HeadConfig {
+  title?: string;
+  meta?: MetaTag[];
+  link?: LinkTag[];
+  script?: ScriptTag[];
+}
+
+interface HeadTag {
+  tag: "title" | "meta" | "link" | "script";
+  attributes: Record<string, string | true>;
+  text: string;
+  // Tags with the same key replace each other
+  key: string | null;
+}
+
+interface HeadEntry {
+  tags: HeadTag[];
+}
+
+// Marks tags owned by head(), including server-rendered ones
+const MARKER = "data-rynex-head";
+
+// Entries of the document; server renders collect into their own list
+const documentEntries: HeadEntry[] = [];
+// Where head() calls add entries right now
+let entries = documentEntries;
+// Tags from the page shell hidden by a head() tag with the same key
+const displaced = new Map<string, Element>();
+const applied = new Map<string, Element>();
+let defaultTitle: string | null = null;
+let adopted = false;
+
+function normalizeAttributes(
+  attributes: HeadAttributes,
+): Record<string, string | true> {
+  const normalized: Record<string, string | true> = {};
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (value === true) {
+      normalized[name] = true;
+    } else if (value !== false && value !== null && value !== undefined) {
+      normalized[name] = String(value);
+    }
+  });
+  return normalized;
+}
+
+function keyOf(
+  tag: string,
+  attributes: Record<string, string | true>,
+): string | null {
+  if (tag === "title") {
+    return "title";
+  }
+  if (tag === "meta") {
+    if (attributes.charset !== undefined) {
+      return "meta:charset";
+    }
+    for (const name of ["name", "property", "http-equiv", "itemprop"]) {
+      if (typeof attributes[name] === "string") {
+        return `meta:${name}:${attributes[name]}`;
+      }
+    }
+    return null;
+  }
+  if (tag === "link") {
+    if (attributes.rel === "canonical") {
+      return "link:canonical";
+    }
+    return attributes.rel && attributes.href
+      ? `link:${attributes.rel}:${attributes.href}`
+      : null;
+  }
+  if (attributes.src) {
+    return `script:${attributes.src}`;
+  }
+  return attributes.id ? `script#${attributes.id}` : null;
+}
+
+function createTag(
+  tag: HeadTag["tag"],
+  attributes: HeadAttributes,
+  text = "",
+): HeadTag {
+  const normalized = normalizeAttributes(attributes);
+  return { tag, attributes: normalized, text, key: keyOf(tag, normalized) };
+}
+
+function toTags(config: HeadConfig): HeadTag[] {
+  const tags: HeadTag[] = [];
+  if (config.title !== undefined) {
+    tags.push(createTag("title", {}, config.title));
+  }
+  (config.meta || []).forEach((meta) => tags.push(createTag("meta", meta)));
+  (config.link || []).forEach((link) => tags.push(createTag("link", link)));
+  (config.script || []).forEach(({ textContent, ...attributes }) =>
+    tags.push(createTag("script", attributes, textContent)),
+  );
+  return tags;
+}
+
+/**
+ * Merge active entries; later entries override earlier tags by key
+ */
+function resolveTags(list: HeadEntry[]): HeadTag[] {
+  const keyed = new Map<string, HeadTag>();
+  const unkeyed: HeadTag[] = [];
+  list.forEach((entry) => {
+    entry.tags.forEach((tag) => {
+      if (tag.key) {
+        keyed.delete(tag.key);
+        keyed.set(tag.key, tag);
+      } else {
+        unkeyed.push(tag);
+      }
+    });
+  });
+  const order = ["title", "meta", "link", "script"];
+  return [...keyed.values(), ...unkeyed].sort(
+    (a, b) => order.indexOf(a.tag) - order.indexOf(b.tag),
+  );
+}
+
+function readAttributes(element: Element): Record<string, string | true> {
+  const attributes: Record<string, string | true> = {};
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    if (name !== MARKER) {
+      attributes[name] = value;
+    }
+  });
+  return attributes;
+}
+
+function signature(
+  tag: string,
+  attributes: Record<string, string | true>,
+  text: string,
+): string {
+  const pairs = Object.keys(attributes)
+    .sort()
+    .map((name) => {
+      const value = attributes[name];
+      return `${name}=${value === true ? "" : value}`;
+    });
+  return `${tag}|${pairs.join("|")}|${text}`;
+}
+
+function toElement(tag: HeadTag): Element {
+  const element = document.createElement(tag.tag);
+  Object.entries(tag.attributes).forEach(([name, value]) => {
+    element.setAttribute(name, value === true ? "" : value);
+  });
+  element.setAttribute(MARKER, "");
+  if (tag.text) {
+    element.textContent = tag.text;
+  }
+  return element;
+}
+
+/**
+ * Bring document.head in line with the active entries
+ * Unchanged tags are kept, so scripts are not loaded twice
+ */
+function applyHead(): void {
+  if (typeof document === "undefined" || !document.head) {
+    return;
+  }
+  const tags = resolveTags(documentEntries);
+
+  if (defaultTitle === null) {
+    defaultTitle = document.title;
+  }
+  const title = tags.find((tag) => tag.tag === "title");
+  document.title = title ? title.text : defaultTitle;
+
+  // Take over tags written by renderHead() on the server
+  if (!adopted) {
+    adopted = true;
+    document.head.querySelectorAll(`[${MARKER}]`).forEach((element) => {
+      applied.set(
+        signature(
+          element.tagName.toLowerCase(),
+          readAttributes(element),
+          element.textContent || "",
+        ),
+        element,
+      );
+    });
+  }
+
+  const wanted = new Map<string, HeadTag>();
+  tags.forEach((tag) => {
+    if (tag.tag !== "title") {
+      wanted.set(signature(tag.tag, tag.attributes, tag.text), tag);
+    }
+  });
+  applied.forEach((element, key) => {
+    if (!wanted.has(key)) {
+      element.remove();
+      applied.delete(key);
+    }
+  });
+
+  const keys = new Set(tags.map((tag) => tag.key));
+  displaced.forEach((element, key) => {
+    if (!keys.has(key)) {
+      document.head.appendChild(element);
+      displaced.delete(key);
+    }
+  });
+  document.head.querySelectorAll("meta, link, script").forEach((element) => {
+    if (element.hasAttribute(MARKER)) {
+      return;
+    }
+    const key = keyOf(element.tagName.toLowerCase(), readAttributes(element));
+    if (key && keys.has(key)) {
+      displaced.set(key, element);
+      element.remove();
+    }
+  });
+
+  wanted.forEach((tag, key) => {
+    if (!applied.has(key)) {
+      applied.set(key, document.head.appendChild(toElement(tag)));
+    }
+  });
+}
+
+/**
+ * Set head tags while the current component is mounted
+ * Tags from later calls (a page after its route meta, a nested component)
+ * replace earlier ones with the same title, meta name/property, canonical
+ * link or script src. Pass a function to follow reactive state. Returns a
+ * remover.
+ * Usage: head(() => ({ title: `${post.title} - Blog`, meta: [{ property: 'og:title', content: post.title }] }))
+ */
+export function head(config: HeadConfig | (() => HeadConfig)): () => void {
+  const entry: HeadEntry = { tags: [] };
+  const scope = entries;
+  scope.push(entry);
+
+  const stop = effect(() => {
+    entry.tags = toTags(typeof config === "function" ? config() : config);
+    if (scope === documentEntries) {
+      applyHead();
+    }
+  });
+
+  let removed = false;
+  const remove = () => {
+    if (removed) {
+      return;
+    }
+    removed = true;
+    stop();
+    scope.splice(scope.indexOf(entry), 1);
+    if (scope === documentEntries) {
+      applyHead();
+    }
+  };
+  if (getOwner()) {
+    onCleanup(remove);
+  }
+  debugLog("Head", `Added ${entry.tags.length} tag(s)`);
+  return remove;
+}
+
+function serializeTag(tag: HeadTag): string {
+  if (tag.tag === "title") {
+    return `<title>${escapeText(tag.text)}</title>`;
+  }
+  const attributes = Object.entries(tag.attributes)
+    .map(([name, value]) =>
+      value === true ? name : `${name}="${escapeAttribute(value)}"`,
+    )
+    .concat(MARKER)
+    .join(" ");
+  if (tag.tag === "script") {
+    // Keep inline source from closing the script element early
+    const source = tag.text.replace(/<\/(script)/gi, "<\\/$1");
+    return `<script ${attributes}>${source}</script>`;
+  }
+  return `<${tag.tag} ${attributes}>`;
+}
+
+function serializeHead(list: HeadEntry[]): string {
+  return resolveTags(list).map(serializeTag).join("\n");
+}
+
+/**
+ * Serialize the document's head() tags to HTML, one tag per line
+ * Server renders keep their tags apart; renderToStringWithHead() returns them.
+ * Usage: const tags = renderHead() // insert before </head>
+ */
+export function renderHead(): string {
+  return serializeHead(documentEntries);
+}
+
+/**
+ * Run fn with head() calls collected apart from the document, so concurrent
+ * server renders never see each other's tags. The returned renderHead
+ * serializes what fn's components have set while they stay mounted.
+ * Only calls made while fn runs synchronously are collected.
+ */
+export function collectHead<T>(fn: () => T): {
+  result: T;
+  renderHead: () => string;
+} {
+  const collected: HeadEntry[] = [];
+  const previous = entries;
+  entries = collected;
+  try {
+    return { result: fn(), renderHead: () => serializeHead(collected) };
+  } finally {
+    entries = previous;
+  }
+}
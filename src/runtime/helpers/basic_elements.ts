@@ -3,7 +3,7 @@
  * Basic HTML elements and components with Rust-style Builder API
  */
 
-import { createElement, DOMProps, DOMChildren } from "../dom.js";
+import { createElement, markBound, DOMProps, DOMChildren } from "../dom.js";
 import { effect } from "../state.js";
 import {
   ElementBuilder,
@@ -11,6 +11,7 @@ import {
   ButtonBuilder,
   InputBuilder,
   ImageBuilder,
+  TextContent,
 } from "./builder.js";
 
 /**
@@ -46,8 +47,9 @@ export function spanLegacy(
 /**
  * Text element with reactive getter support - Builder API
  * Usage: text('static').build() or text(() => `Count: ${state.count}`).build()
+ * A string signal can be passed directly: text(name).build()
  */
-export function text(content?: string | (() => string)): TextBuilder {
+export function text(content?: TextContent): TextBuilder {
   return new TextBuilder(content);
 }
 
@@ -67,6 +69,7 @@ export function textLegacy(
     effect(() => {
       el.textContent = props();
     });
+    markBound(el);
     return el;
   }
 
@@ -78,6 +81,7 @@ export function textLegacy(
     effect(() => {
       el.textContent = content();
     });
+    markBound(el);
   } else if (content) {
     // Static content
     el.textContent = content;
@@ -90,7 +94,7 @@ export function textLegacy(
  * Button element with reactive text support - Builder API
  * Usage: button('Click').click(() => ...).build()
  */
-export function button(content?: string | (() => string)): ButtonBuilder {
+export function button(content?: TextContent): ButtonBuilder {
   return new ButtonBuilder(content);
 }
 
@@ -106,6 +110,7 @@ export function buttonLegacy(
     effect(() => {
       el.textContent = content();
     });
+    markBound(el);
   } else if (typeof content === "string") {
     // Static text content
     el.textContent = content;
@@ -8,8 +8,23 @@ import {
   DOMChildren,
   applyProps,
   appendChildren,
+  markBound,
+  svgElement,
+  DOMProps,
 } from "../dom.js";
-import { effect } from "../state.js";
+import { effect, Signal } from "../state.js";
+import { addHandler, EventHandlerOptions } from "../events.js";
+import {
+  bind as createBinding,
+  isBinding,
+  Binding,
+  BindOptions,
+} from "../binding.js";
+
+/**
+ * Text content accepted by builders: static, a getter, or a signal
+ */
+export type TextContent = string | (() => string) | Signal<string>;
 
 /**
  * Responsive breakpoint configuration
@@ -353,8 +368,9 @@ export class ElementBuilder<T extends HTMLElement = HTMLElement> {
   on<K extends keyof HTMLElementEventMap>(
     event: K,
     handler: (event: HTMLElementEventMap[K]) => void,
+    options?: EventHandlerOptions,
   ): this {
-    this.element.addEventListener(event, handler as EventListener);
+    addHandler(this.element, event, handler as EventListener, options);
     return this;
   }
 
@@ -362,7 +378,7 @@ export class ElementBuilder<T extends HTMLElement = HTMLElement> {
    * Add click event listener
    */
   click(handler: (event: MouseEvent) => void): this {
-    this.element.addEventListener("click", handler);
+    addHandler(this.element, "click", handler as EventListener);
     return this;
   }
 
@@ -490,9 +506,9 @@ export class ElementBuilder<T extends HTMLElement = HTMLElement> {
  * Text Builder with reactive content support
  */
 export class TextBuilder extends ElementBuilder<HTMLSpanElement> {
-  private content?: string | (() => string);
+  private content?: TextContent;
 
-  constructor(content?: string | (() => string)) {
+  constructor(content?: TextContent) {
     super("span");
     this.content = content;
   }
@@ -563,6 +579,7 @@ export class TextBuilder extends ElementBuilder<HTMLSpanElement> {
         effect(() => {
           this.element.textContent = contentFn();
         });
+        markBound(this.element);
       } else {
         // Static content
         this.element.textContent = this.content;
@@ -576,9 +593,9 @@ export class TextBuilder extends ElementBuilder<HTMLSpanElement> {
  * Button Builder
  */
 export class ButtonBuilder extends ElementBuilder<HTMLButtonElement> {
-  private content?: string | (() => string);
+  private content?: TextContent;
 
-  constructor(content?: string | (() => string)) {
+  constructor(content?: TextContent) {
     super("button");
     this.content = content;
   }
@@ -610,9 +627,17 @@ export class ButtonBuilder extends ElementBuilder<HTMLButtonElement> {
 
   /**
    * Set disabled state
+   * Pass a function to follow reactive state
    */
-  disabled(value: boolean = true): this {
-    this.element.disabled = value;
+  disabled(value: boolean | (() => boolean) = true): this {
+    if (typeof value === "function") {
+      effect(() => {
+        this.element.disabled = value();
+      });
+      markBound(this.element);
+    } else {
+      this.element.disabled = value;
+    }
     return this;
   }
 
@@ -624,6 +649,7 @@ export class ButtonBuilder extends ElementBuilder<HTMLButtonElement> {
         effect(() => {
           this.element.textContent = contentFn();
         });
+        markBound(this.element);
       } else {
         // Static content
         this.element.textContent = this.content;
@@ -633,10 +659,47 @@ export class ButtonBuilder extends ElementBuilder<HTMLButtonElement> {
   }
 }
 
+/**
+ * Base for builders of bindable form controls
+ * The binding is wired in build(), once type, options and children are set
+ */
+export class FormControlBuilder<
+  T extends HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement,
+> extends ElementBuilder<T> {
+  private binding?: Binding;
+
+  /**
+   * Two-way bind the value, checked state or selection to a state property
+   * or signal
+   * Usage: input().bind(form, 'email')
+   */
+  bind<S extends object, K extends keyof S>(
+    stateObj: S,
+    key: K,
+    options?: BindOptions,
+  ): this;
+  bind<V>(source: Signal<V> | Binding<V>, options?: BindOptions): this;
+  bind(source: any, key?: any, options?: BindOptions): this {
+    this.binding = isBinding(source)
+      ? source
+      : createBinding(source, key, options);
+    return this;
+  }
+
+  build(): T {
+    const element = super.build();
+    if (this.binding) {
+      applyProps(element, { bind: this.binding });
+      this.binding = undefined;
+    }
+    return element;
+  }
+}
+
 /**
  * Input Builder
  */
-export class InputBuilder extends ElementBuilder<HTMLInputElement> {
+export class InputBuilder extends FormControlBuilder<HTMLInputElement> {
   constructor() {
     super("input");
   }
@@ -683,9 +746,17 @@ export class InputBuilder extends ElementBuilder<HTMLInputElement> {
 
   /**
    * Set disabled
+   * Pass a function to follow reactive state
    */
-  disabled(value: boolean = true): this {
-    this.element.disabled = value;
+  disabled(value: boolean | (() => boolean) = true): this {
+    if (typeof value === "function") {
+      effect(() => {
+        this.element.disabled = value();
+      });
+      markBound(this.element);
+    } else {
+      this.element.disabled = value;
+    }
     return this;
   }
 
@@ -693,7 +764,7 @@ export class InputBuilder extends ElementBuilder<HTMLInputElement> {
    * Add input event listener
    */
   input(handler: (event: Event) => void): this {
-    this.element.addEventListener("input", handler);
+    addHandler(this.element, "input", handler);
     return this;
   }
 
@@ -701,7 +772,7 @@ export class InputBuilder extends ElementBuilder<HTMLInputElement> {
    * Add change event listener
    */
   change(handler: (event: Event) => void): this {
-    this.element.addEventListener("change", handler);
+    addHandler(this.element, "change", handler);
     return this;
   }
 }
@@ -749,3 +820,147 @@ export class ImageBuilder extends ElementBuilder<HTMLImageElement> {
     return this;
   }
 }
+
+/**
+ * SVG element builder
+ * Attributes keep their exact names (viewBox, xlink:href), and children are
+ * created in the SVG namespace
+ */
+export class SvgBuilder<T extends SVGElement = SVGElement> {
+  protected element: T;
+  protected children: DOMChildren[] = [];
+
+  constructor(tag: string) {
+    this.element = svgElement(tag) as T;
+  }
+
+  /**
+   * Add children to the element
+   */
+  add(children: DOMChildren | DOMChildren[]): this {
+    const childArray = Array.isArray(children) ? children : [children];
+    this.children.push(...childArray);
+    return this;
+  }
+
+  /**
+   * Set attribute; getters are bound reactively
+   */
+  attr(name: string, value: string | number | (() => string | number)): this {
+    applyProps(this.element, { [name]: value });
+    return this;
+  }
+
+  /**
+   * Apply several props at once
+   */
+  props(props: DOMProps): this {
+    applyProps(this.element, props);
+    return this;
+  }
+
+  /**
+   * Set CSS class
+   */
+  class(className: string | (() => string)): this {
+    return this.attr("class", className);
+  }
+
+  /**
+   * Set ID
+   */
+  id(id: string): this {
+    this.element.id = id;
+    return this;
+  }
+
+  /**
+   * Set custom style property
+   */
+  style(property: string, value: string): this {
+    (this.element.style as any)[property] = value;
+    return this;
+  }
+
+  /**
+   * Set the viewBox (min-x min-y width height)
+   */
+  viewBox(value: string): this {
+    return this.attr("viewBox", value);
+  }
+
+  width(value: number | string): this {
+    return this.attr("width", value);
+  }
+
+  height(value: number | string): this {
+    return this.attr("height", value);
+  }
+
+  fill(value: string | (() => string)): this {
+    return this.attr("fill", value);
+  }
+
+  stroke(value: string | (() => string)): this {
+    return this.attr("stroke", value);
+  }
+
+  strokeWidth(value: number | string): this {
+    return this.attr("stroke-width", value);
+  }
+
+  transform(value: string | (() => string)): this {
+    return this.attr("transform", value);
+  }
+
+  /**
+   * Set path data
+   */
+  d(value: string | (() => string)): this {
+    return this.attr("d", value);
+  }
+
+  /**
+   * Link target for <a>, <use> and <image>; also sets xlink:href for
+   * older renderers
+   */
+  href(value: string): this {
+    this.attr("href", value);
+    return this.attr("xlink:href", value);
+  }
+
+  /**
+   * Add event listener
+   */
+  on<K extends keyof SVGElementEventMap>(
+    event: K,
+    handler: (event: SVGElementEventMap[K]) => void,
+    options?: EventHandlerOptions,
+  ): this {
+    addHandler(this.element, event, handler as EventListener, options);
+    return this;
+  }
+
+  /**
+   * Add click event listener
+   */
+  click(handler: (event: MouseEvent) => void): this {
+    addHandler(this.element, "click", handler as EventListener);
+    return this;
+  }
+
+  /**
+   * Set ref
+   */
+  ref(ref: { current: T | null }): this {
+    ref.current = this.element;
+    return this;
+  }
+
+  build(): T {
+    if (this.children.length > 0) {
+      appendChildren(this.element, this.children);
+    }
+    return this.element;
+  }
+}
@@ -3,7 +3,15 @@
  * Provides context API similar to React's Context and global store management
  */
 
-import { state as createReactiveState, effect } from "../state.js";
+import {
+  state as createReactiveState,
+  effect,
+  signal,
+  toRaw,
+  untrack,
+  getOwner,
+  onCleanup,
+} from "../state.js";
 import { createElement } from "../dom.js";
 import { debugLog, debugWarn } from "../debug.js";
 
@@ -104,6 +112,32 @@ export function useContext<T>(context: { key: symbol; defaultValue?: T }): T {
   return value as T;
 }
 
+/**
+ * Snapshot of the context values visible right now
+ * Used to render deferred content (e.g. portals) against the same values
+ */
+export function captureContext(): Map<symbol | string, any> {
+  return new Map(contextMap);
+}
+
+/**
+ * Run fn with exactly the context values of a snapshot from captureContext()
+ */
+export function runWithContext<T>(
+  snapshot: Map<symbol | string, any>,
+  fn: () => T,
+): T {
+  const previous = new Map(contextMap);
+  contextMap.clear();
+  snapshot.forEach((value, key) => contextMap.set(key, value));
+  try {
+    return fn();
+  } finally {
+    contextMap.clear();
+    previous.forEach((value, key) => contextMap.set(key, value));
+  }
+}
+
 /**
  * Provider component - wraps children with context value
  * This is a generic provider that can be used with any context
@@ -153,6 +187,79 @@ export function provider<T>(
   return container;
 }
 
+/**
+ * Action context passed to store middleware
+ * after is filled in once the action has run (or its promise resolved)
+ */
+export interface StoreActionContext<T> {
+  store: string;
+  action: string;
+  args: any[];
+  before: T;
+  after?: T;
+}
+
+/**
+ * Store middleware - wraps every action call
+ * Call next() to run the action (and the rest of the chain); skip it to block
+ */
+export type StoreMiddleware<T = any> = (
+  ctx: StoreActionContext<T>,
+  next: () => any,
+) => any;
+
+/**
+ * Store plugin - runs once when the store is created
+ * May return a teardown function, called by removeStore()/clearStores()
+ */
+export type StorePlugin<T extends object = any> = (
+  store: Store<T, any>,
+) => void | (() => void);
+
+export interface StoreOptions<T extends object> {
+  middleware?: StoreMiddleware<T>[];
+  plugins?: StorePlugin<T>[];
+}
+
+/**
+ * Memoized derived slice of a store
+ * Disposed with the component that created it; call dispose() otherwise
+ */
+export interface StoreSelection<R> {
+  readonly value: R;
+  subscribe: (listener: (value: R, previous: R) => void) => () => void;
+  dispose: () => void;
+}
+
+export interface Store<T extends object, A extends Record<string, Function>> {
+  state: T;
+  actions: A;
+  subscribe: (listener: () => void) => () => void;
+  getState: () => T;
+  use: (middleware: StoreMiddleware<T>) => () => void;
+  select: <R>(
+    selector: (state: T) => R,
+    equalityFn?: (a: R, b: R) => boolean,
+  ) => StoreSelection<R>;
+}
+
+/**
+ * Plugin teardowns per store name
+ */
+const storeTeardowns = new Map<string, Array<() => void>>();
+
+/**
+ * Deep copy of the state for before/after snapshots
+ */
+function snapshotState<T extends object>(reactiveState: T): T {
+  const raw = toRaw(reactiveState);
+  try {
+    return structuredClone(raw);
+  } catch {
+    return { ...raw };
+  }
+}
+
 /**
  * Create a global store
  * Returns a reactive store with actions
@@ -164,12 +271,8 @@ export function createStore<
   name: string,
   initialState: T,
   actions?: (state: T) => A,
-): {
-  state: T;
-  actions: A;
-  subscribe: (listener: () => void) => () => void;
-  getState: () => T;
-} {
+  options: StoreOptions<T> = {},
+): Store<T, A> {
   if (!name || typeof name !== "string") {
     debugWarn("Store", "Store name must be a non-empty string");
     throw new Error("Invalid store name");
@@ -195,7 +298,51 @@ export function createStore<
   const reactiveState = createReactiveState(initialState);
 
   // Create actions bound to state
-  const boundActions = actions ? actions(reactiveState) : ({} as A);
+  const rawActions = actions ? actions(reactiveState) : ({} as A);
+  const middleware: StoreMiddleware<T>[] = [...(options.middleware || [])];
+
+  // Run an action through the middleware chain
+  const dispatch = (action: string, args: any[], run: () => any): any => {
+    if (middleware.length === 0) {
+      return run();
+    }
+
+    const ctx: StoreActionContext<T> = {
+      store: name,
+      action,
+      args,
+      before: snapshotState(reactiveState),
+    };
+    const chain = [...middleware];
+    let index = 0;
+
+    const next = (): any => {
+      if (index >= chain.length) {
+        const result = run();
+        if (result instanceof Promise) {
+          return result.then((value) => {
+            ctx.after = snapshotState(reactiveState);
+            return value;
+          });
+        }
+        ctx.after = snapshotState(reactiveState);
+        return result;
+      }
+      const mw = chain[index++];
+      return mw(ctx, next);
+    };
+
+    return next();
+  };
+
+  const boundActions = {} as A;
+  Object.keys(rawActions).forEach((key) => {
+    const action = rawActions[key];
+    (boundActions as any)[key] =
+      typeof action === "function"
+        ? (...args: any[]) => dispatch(key, args, () => action(...args))
+        : action;
+  });
 
   // Subscription management
   const listeners = new Set<() => void>();
@@ -229,16 +376,93 @@ export function createStore<
     return { ...reactiveState };
   };
 
-  const store = {
+  const use = (mw: StoreMiddleware<T>) => {
+    middleware.push(mw);
+    return () => {
+      const index = middleware.indexOf(mw);
+      if (index !== -1) {
+        middleware.splice(index, 1);
+      }
+    };
+  };
+
+  /**
+   * Derived slice that only notifies when the selected value changes
+   * The selector runs once per state change, however many readers there are
+   */
+  const select = <R>(
+    selector: (state: T) => R,
+    equalityFn: (a: R, b: R) => boolean = Object.is,
+  ): StoreSelection<R> => {
+    let current: R;
+    let initialized = false;
+    const selected = signal<R>(undefined as R);
+    const selectionListeners = new Set<(value: R, previous: R) => void>();
+
+    const stop = effect(() => {
+      const next = selector(reactiveState);
+      if (initialized && equalityFn(current, next)) {
+        return;
+      }
+      const previous = current;
+      current = next;
+      selected.set(next);
+      if (initialized) {
+        // What listeners read must not re-run the selection
+        untrack(() =>
+          selectionListeners.forEach((listener) => listener(next, previous)),
+        );
+      }
+      initialized = true;
+    });
+    const dispose = () => {
+      stop();
+      selectionListeners.clear();
+    };
+    if (getOwner()) {
+      onCleanup(dispose);
+    }
+
+    return {
+      get value() {
+        return selected();
+      },
+      subscribe: (listener) => {
+        selectionListeners.add(listener);
+        return () => {
+          selectionListeners.delete(listener);
+        };
+      },
+      dispose,
+    };
+  };
+
+  const store: Store<T, A> = {
     state: reactiveState,
     actions: boundActions,
     subscribe,
     getState,
+    use,
+    select,
   };
 
   // Register store
   storeRegistry.set(name, store);
 
+  // Install plugins
+  const teardowns: Array<() => void> = [];
+  (options.plugins || []).forEach((plugin) => {
+    try {
+      const teardown = plugin(store);
+      if (typeof teardown === "function") {
+        teardowns.push(teardown);
+      }
+    } catch (error) {
+      console.error(`Error in store plugin for "${name}":`, error);
+    }
+  });
+  storeTeardowns.set(name, teardowns);
+
   return store;
 }
 
@@ -248,12 +472,7 @@ export function createStore<
  */
 export function useStore<T extends object, A extends Record<string, Function>>(
   name: string,
-): {
-  state: T;
-  actions: A;
-  subscribe: (listener: () => void) => () => void;
-  getState: () => T;
-} | null {
+): Store<T, A> | null {
   if (!name || typeof name !== "string") {
     debugWarn("Store", "Store name must be a non-empty string");
     return null;
@@ -290,6 +509,7 @@ export function removeStore(name: string): boolean {
   }
 
   const deleted = storeRegistry.delete(name);
+  runTeardowns(name);
   if (deleted) {
     debugLog("Store", `Store removed: ${name}`);
   } else {
@@ -303,6 +523,23 @@ export function removeStore(name: string): boolean {
  */
 export function clearStores(): void {
   const count = storeRegistry.size;
+  Array.from(storeTeardowns.keys()).forEach(runTeardowns);
   storeRegistry.clear();
   debugLog("Store", `Cleared ${count} stores`);
 }
+
+/**
+ * Run and forget plugin teardowns of a store
+ */
+function runTeardowns(name: string): void {
+  const teardowns = storeTeardowns.get(name);
+  if (!teardowns) return;
+  storeTeardowns.delete(name);
+  teardowns.forEach((teardown) => {
+    try {
+      teardown();
+    } catch (error) {
+      console.error(`Error tearing down store plugin for "${name}":`, error);
+    }
+  });
+}
@@ -3,6 +3,8 @@
  * Debugging, logging, and performance profiling utilities
  */
 
+import { getHistories } from "./history.js";
+
 /**
  * Logger levels
  */
@@ -375,6 +377,10 @@ class DevTools {
         version: "0.1.55",
         inspect: this.inspect.bind(this),
         getState: this.getState.bind(this),
+        history: {
+          list: this.listHistories.bind(this),
+          jumpTo: this.jumpTo.bind(this),
+        },
       };
 
       this.logger.info("DevTools attached to window.__RYNEX_DEVTOOLS__");
@@ -416,6 +422,23 @@ class DevTools {
     };
   }
 
+  listHistories() {
+    const result: Record<string, any> = {};
+    getHistories().forEach((h, name) => {
+      result[name] = { position: h.position, entries: h.getEntries() };
+    });
+    return result;
+  }
+
+  jumpTo(name: string, target: number | string) {
+    const h = getHistories().get(name);
+    if (!h) {
+      this.logger.warn(`History "${name}" not found`);
+      return;
+    }
+    h.jumpTo(target);
+  }
+
   enable() {
     this.config.enabled = true;
     this.attachToWindow();
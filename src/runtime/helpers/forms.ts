@@ -4,7 +4,8 @@
  */
 
 import { createElement, DOMProps, DOMChildren } from "../dom.js";
-import { ElementBuilder, InputBuilder } from "./builder.js";
+import { ElementBuilder, FormControlBuilder, InputBuilder } from "./builder.js";
+import { addHandler } from "../events.js";
 
 /**
  * Form element - Builder API
@@ -25,7 +26,7 @@ export class FormBuilder extends ElementBuilder<HTMLFormElement> {
   }
 
   submit(handler: (event: Event) => void): this {
-    this.element.addEventListener("submit", handler);
+    addHandler(this.element, "submit", handler);
     return this;
   }
 }
@@ -37,7 +38,7 @@ export function form(): FormBuilder {
 /**
  * Textarea element - Builder API
  */
-export class TextareaBuilder extends ElementBuilder<HTMLTextAreaElement> {
+export class TextareaBuilder extends FormControlBuilder<HTMLTextAreaElement> {
   constructor() {
     super("textarea");
   }
@@ -70,7 +71,7 @@ export function textarea(): TextareaBuilder {
 /**
  * Select element - Builder API
  */
-export class SelectBuilder extends ElementBuilder<HTMLSelectElement> {
+export class SelectBuilder extends FormControlBuilder<HTMLSelectElement> {
   constructor() {
     super("select");
   }
@@ -0,0 +1,216 @@
+/**
+ * Rynex State History
+ * Patch-based undo/redo and time-travel for reactive state and stores
+ */
+
+import { batch, onPatch, signal, writePath, StatePatch } from "../state.js";
+import { debugLog, debugWarn } from "../debug.js";
+
+export interface HistoryOptions {
+  limit?: number;
+  groupWithin?: number;
+  name?: string;
+}
+
+export interface HistoryEntryInfo {
+  index: number;
+  label?: string;
+  timestamp: number;
+  changes: number;
+}
+
+export interface StateHistory {
+  readonly name: string;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  readonly position: number;
+  undo: () => void;
+  redo: () => void;
+  checkpoint: (label?: string) => void;
+  jumpTo: (target: number | string) => void;
+  getEntries: () => HistoryEntryInfo[];
+  clear: () => void;
+  stop: () => void;
+}
+
+interface HistoryEntry {
+  patches: StatePatch[];
+  batchId: number;
+  timestamp: number;
+  label?: string;
+}
+
+/**
+ * History registry - lets devtools list and time-travel every history
+ */
+const historyRegistry = new Map<string, StateHistory>();
+let historyCounter = 0;
+
+/**
+ * Record changes to a reactive state object (or store) for undo/redo
+ * Writes inside one batch() become a single entry; with groupWithin, writes
+ * closer together than that many milliseconds are merged as well.
+ * Usage: const h = history(doc, { limit: 100 }); h.undo(); h.canUndo
+ */
+export function history<T extends object>(
+  target: T | { state: T; getState: () => T },
+  options: HistoryOptions = {},
+): StateHistory {
+  const stateObj: T =
+    "state" in target && "getState" in target ? target.state : (target as T);
+  const limit = options.limit ?? 100;
+  const groupWithin = options.groupWithin ?? 0;
+  const name = options.name || `history-${++historyCounter}`;
+
+  const entries: HistoryEntry[] = [];
+  let cursor = 0;
+  let sealed = false;
+  let applying = false;
+
+  // Reactive mirrors of cursor and entries.length for canUndo/canRedo
+  const positionSignal = signal(0);
+  const lengthSignal = signal(0);
+
+  const sync = () => {
+    positionSignal.set(cursor);
+    lengthSignal.set(entries.length);
+  };
+
+  const record = (patch: StatePatch) => {
+    if (applying) {
+      return;
+    }
+
+    // A new change discards the redo stack
+    if (cursor < entries.length) {
+      entries.splice(cursor);
+    }
+
+    const now = Date.now();
+    const last = entries[entries.length - 1];
+    const canMerge =
+      last &&
+      !sealed &&
+      ((patch.batchId !== 0 && patch.batchId === last.batchId) ||
+        (groupWithin > 0 && now - last.timestamp <= groupWithin));
+
+    if (canMerge) {
+      last.patches.push(patch);
+      last.timestamp = now;
+    } else {
+      entries.push({
+        patches: [patch],
+        batchId: patch.batchId,
+        timestamp: now,
+      });
+      sealed = false;
+      if (entries.length > limit) {
+        entries.shift();
+      }
+    }
+
+    cursor = entries.length;
+    sync();
+  };
+
+  const revert = (entry: HistoryEntry) => {
+    for (let i = entry.patches.length - 1; i >= 0; i--) {
+      const patch = entry.patches[i];
+      writePath(stateObj, patch.path, patch.oldValue, !patch.hadKey);
+    }
+  };
+
+  const apply = (entry: HistoryEntry) => {
+    for (const patch of entry.patches) {
+      writePath(stateObj, patch.path, patch.newValue, patch.deleted);
+    }
+  };
+
+  // Move the cursor to index, undoing or redoing entries on the way
+  const moveTo = (index: number) => {
+    const targetIndex = Math.max(0, Math.min(index, entries.length));
+    if (targetIndex === cursor) {
+      return;
+    }
+
+    applying = true;
+    try {
+      batch(() => {
+        while (cursor > targetIndex) {
+          revert(entries[--cursor]);
+        }
+        while (cursor < targetIndex) {
+          apply(entries[cursor++]);
+        }
+      });
+    } finally {
+      applying = false;
+    }
+
+    // Changes after time-travel must not merge into a restored entry
+    sealed = true;
+    sync();
+    debugLog("History", `${name} moved to position ${cursor}`);
+  };
+
+  const unsubscribe = onPatch(stateObj, record);
+
+  const instance: StateHistory = {
+    name,
+    get canUndo() {
+      return positionSignal() > 0;
+    },
+    get canRedo() {
+      return positionSignal() < lengthSignal();
+    },
+    get position() {
+      return positionSignal();
+    },
+    undo: () => moveTo(cursor - 1),
+    redo: () => moveTo(cursor + 1),
+    checkpoint: (label?: string) => {
+      sealed = true;
+      if (label && cursor > 0) {
+        entries[cursor - 1].label = label;
+      }
+    },
+    jumpTo: (target: number | string) => {
+      if (typeof target === "string") {
+        const index = entries.findIndex((entry) => entry.label === target);
+        if (index === -1) {
+          debugWarn("History", `Checkpoint "${target}" not found in ${name}`);
+          return;
+        }
+        moveTo(index + 1);
+      } else {
+        moveTo(target);
+      }
+    },
+    getEntries: () =>
+      entries.map((entry, index) => ({
+        index: index + 1,
+        label: entry.label,
+        timestamp: entry.timestamp,
+        changes: entry.patches.length,
+      })),
+    clear: () => {
+      entries.length = 0;
+      cursor = 0;
+      sync();
+    },
+    stop: () => {
+      unsubscribe();
+      historyRegistry.delete(name);
+    },
+  };
+
+  historyRegistry.set(name, instance);
+  return instance;
+}
+
+/**
+ * Get every active history, keyed by name
+ */
+export function getHistories(): Map<string, StateHistory> {
+  return new Map(historyRegistry);
+}
@@ -109,11 +109,13 @@ export {
   canvas,
   svg,
   svgPath,
+  svgBuilder,
   iframe,
   picture,
   source,
   track,
 } from "./media.js";
+export type { SvgBuilder } from "./builder.js";
 
 // Table Elements
 export {
@@ -134,6 +136,9 @@ export {
   fragment,
   when,
   show,
+  Show,
+  Switch,
+  Match,
   each,
   switchCase,
   dynamic,
@@ -144,6 +149,7 @@ export {
   errorBoundary,
   memo,
 } from "./utilities.js";
+export type { ShowProps, MatchCase, PortalFragment } from "./utilities.js";
 
 // UI Components
 export {
@@ -233,6 +239,40 @@ export {
   removeStore,
   clearStores,
 } from "./context.js";
+export type {
+  Store,
+  StoreOptions,
+  StoreMiddleware,
+  StorePlugin,
+  StoreActionContext,
+  StoreSelection,
+} from "./context.js";
+
+// State Persistence
+export {
+  persist,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  indexedDBAdapter,
+  memoryAdapter,
+} from "./persist.js";
+export type {
+  StorageAdapter,
+  PersistOptions,
+  PersistHandle,
+} from "./persist.js";
+
+// Cross-Tab Sync
+export { syncAcrossTabs } from "./sync.js";
+export type { SyncOptions, SyncHandle } from "./sync.js";
+
+// Undo/Redo History
+export { history, getHistories } from "./history.js";
+export type {
+  StateHistory,
+  HistoryOptions,
+  HistoryEntryInfo,
+} from "./history.js";
 
 // Developer Tools
 export {
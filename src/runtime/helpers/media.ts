@@ -3,8 +3,8 @@
  * Media and embedded content elements with Rust-style Builder API
  */
 
-import { createElement, DOMProps, DOMChildren } from "../dom.js";
-import { ElementBuilder } from "./builder.js";
+import { createElement, svgElement, DOMProps, DOMChildren } from "../dom.js";
+import { ElementBuilder, SvgBuilder } from "./builder.js";
 
 /**
  * Video player - Builder API
@@ -133,6 +133,8 @@ export function canvasLegacy(
 
 /**
  * SVG container - creates proper SVG element with namespace
+ * Children made with createElement ('circle', 'path', ...) or svgElement()
+ * are SVG too; innerHTML is still accepted for raw markup such as icons
  */
 export function svg(
   props: DOMProps & {
@@ -140,55 +142,33 @@ export function svg(
     width?: string | number;
     height?: string | number;
   },
-  innerHTML?: string,
+  innerHTML?: string | DOMChildren,
+  ...children: DOMChildren[]
 ): SVGSVGElement {
-  const svgElement = document.createElementNS(
-    "http://www.w3.org/2000/svg",
-    "svg",
-  );
-
-  // Apply props
-  if (props) {
-    for (const [key, value] of Object.entries(props)) {
-      if (value === null || value === undefined) continue;
-
-      if (key === "style" && typeof value === "object") {
-        Object.assign(svgElement.style, value);
-      } else if (key === "class" || key === "className") {
-        svgElement.setAttribute("class", value);
-      } else if (key.startsWith("on") && typeof value === "function") {
-        const eventName = key.slice(2).toLowerCase();
-        svgElement.addEventListener(eventName, value as EventListener);
-      } else {
-        svgElement.setAttribute(key, String(value));
-      }
-    }
-  }
-
-  // Set innerHTML if provided (for SVG paths)
-  if (innerHTML) {
-    svgElement.innerHTML = innerHTML;
+  if (typeof innerHTML === "string") {
+    const svgEl = svgElement("svg", props, ...children);
+    svgEl.innerHTML = innerHTML;
+    return svgEl;
   }
 
-  return svgElement;
+  return svgElement("svg", props, innerHTML, ...children);
 }
 
 /**
  * Create SVG path element
  */
 export function svgPath(d: string, props?: DOMProps): SVGPathElement {
-  const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-  path.setAttribute("d", d);
-
-  if (props) {
-    for (const [key, value] of Object.entries(props)) {
-      if (value !== null && value !== undefined) {
-        path.setAttribute(key, String(value));
-      }
-    }
-  }
+  return svgElement("path", { ...props, d });
+}
 
-  return path;
+/**
+ * SVG element - Builder API
+ * Usage: svgBuilder('circle').attr('r', 10).fill('red').build()
+ */
+export function svgBuilder<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+): SvgBuilder<SVGElementTagNameMap[K]> {
+  return new SvgBuilder<SVGElementTagNameMap[K]>(tag);
 }
 
 /**
@@ -0,0 +1,321 @@
+/**
+ * Rynex State Persistence
+ * Sync reactive state and stores to storage, with versioned migrations
+ */
+
+import { batch, subscribe, toRaw } from "../state.js";
+import { debugLog, debugWarn } from "../debug.js";
+
+/**
+ * Storage adapter interface
+ * Methods may be sync (Web Storage) or async (IndexedDB)
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface PersistOptions<T extends object> {
+  key: string;
+  storage?: StorageAdapter;
+  version?: number;
+  migrate?: (persistedState: any, fromVersion: number) => Partial<T>;
+  include?: Array<keyof T>;
+  exclude?: Array<keyof T>;
+  debounce?: number;
+}
+
+export interface PersistHandle {
+  ready: Promise<void>;
+  isHydrated: () => boolean;
+  flush: () => Promise<void>;
+  clear: () => Promise<void>;
+  stop: () => void;
+}
+
+interface PersistedEnvelope {
+  version: number;
+  state: Record<string, any>;
+}
+
+/**
+ * In-memory storage, useful for tests and non-browser environments
+ */
+export function memoryAdapter(
+  initial: Record<string, string> = {},
+): StorageAdapter {
+  const data = new Map<string, string>(Object.entries(initial));
+
+  return {
+    getItem: (key) => (data.has(key) ? data.get(key)! : null),
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+/**
+ * Wrap a Web Storage object, falling back to memory when it is unavailable
+ */
+function webStorageAdapter(
+  getStorage: () => Storage,
+  name: string,
+): StorageAdapter {
+  try {
+    const storage = getStorage();
+    return {
+      getItem: (key) => storage.getItem(key),
+      setItem: (key, value) => storage.setItem(key, value),
+      removeItem: (key) => storage.removeItem(key),
+    };
+  } catch {
+    debugWarn("Persist", `${name} is not available, using memory storage`);
+    return memoryAdapter();
+  }
+}
+
+/**
+ * localStorage adapter (default)
+ */
+export function localStorageAdapter(): StorageAdapter {
+  return webStorageAdapter(() => window.localStorage, "localStorage");
+}
+
+/**
+ * sessionStorage adapter
+ */
+export function sessionStorageAdapter(): StorageAdapter {
+  return webStorageAdapter(() => window.sessionStorage, "sessionStorage");
+}
+
+/**
+ * IndexedDB adapter
+ * Values are kept in a single key-value object store
+ */
+export function indexedDBAdapter(
+  options: { dbName?: string; storeName?: string } = {},
+): StorageAdapter {
+  const dbName = options.dbName || "rynex";
+  const storeName = options.storeName || "keyval";
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R> =>
+    getDB().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const transaction = db.transaction(storeName, mode);
+          const request = fn(transaction.objectStore(storeName));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        }),
+    );
+
+  return {
+    getItem: (key) =>
+      run("readonly", (store) => store.get(key)).then((value) =>
+        typeof value === "string" ? value : null,
+      ),
+    setItem: (key, value) =>
+      run("readwrite", (store) => store.put(value, key)).then(() => {}),
+    removeItem: (key) =>
+      run("readwrite", (store) => store.delete(key)).then(() => {}),
+  };
+}
+
+/**
+ * Keep only the keys allowed by include/exclude
+ */
+function pickKeys<T extends object>(
+  source: object,
+  options: PersistOptions<T>,
+): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    if (options.include && !options.include.includes(key as keyof T)) {
+      continue;
+    }
+    if (options.exclude && options.exclude.includes(key as keyof T)) {
+      continue;
+    }
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Persist a reactive state object or a store created with createStore()
+ * Sync storages rehydrate before persist() returns, so calling it before the
+ * first render is enough; for async storages, await handle.ready first.
+ * Usage: persist(settings, { key: 'settings', version: 2, migrate })
+ */
+export function persist<T extends object>(
+  target: T | { state: T; getState: () => T },
+  options: PersistOptions<T>,
+): PersistHandle {
+  if (!options || !options.key) {
+    debugWarn("Persist", "persist() requires a storage key");
+    throw new Error("Invalid persist options: key is required");
+  }
+
+  const stateObj: T =
+    "state" in target && "getState" in target ? target.state : (target as T);
+  const storage = options.storage || localStorageAdapter();
+  const version = options.version ?? 0;
+  const wait = options.debounce ?? 0;
+
+  let hydrated = false;
+  let stopped = false;
+  let lastWritten: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const serialize = (): string => {
+    const snapshot = pickKeys(toRaw(stateObj), options);
+    const envelope: PersistedEnvelope = { version, state: snapshot };
+    return JSON.stringify(envelope);
+  };
+
+  const write = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const serialized = serialize();
+    if (serialized === lastWritten) {
+      return;
+    }
+    lastWritten = serialized;
+    try {
+      await storage.setItem(options.key, serialized);
+      debugLog("Persist", `Saved state: ${options.key}`);
+    } catch (error) {
+      console.error("Failed to persist state:", error);
+    }
+  };
+
+  const apply = (raw: string | null) => {
+    if (stopped || raw === null) {
+      return;
+    }
+
+    let envelope: PersistedEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      console.error(`Failed to parse persisted state "${options.key}":`, error);
+      return;
+    }
+
+    let persisted: object = envelope.state;
+    const storedVersion = envelope.version ?? 0;
+    let migrated = false;
+
+    if (storedVersion !== version) {
+      if (storedVersion < version && options.migrate) {
+        debugLog(
+          "Persist",
+          `Migrating ${options.key} from v${storedVersion} to v${version}`,
+        );
+        persisted = options.migrate(persisted, storedVersion);
+        migrated = true;
+      } else {
+        debugWarn(
+          "Persist",
+          `Discarding persisted state ${options.key}: version ${storedVersion} does not match ${version}`,
+        );
+        return;
+      }
+    }
+
+    batch(() => {
+      Object.assign(stateObj, pickKeys(persisted || {}, options));
+    });
+    lastWritten = migrated ? null : raw;
+
+    if (migrated) {
+      write();
+    }
+    debugLog("Persist", `Rehydrated state: ${options.key}`);
+  };
+
+  const restoreFailed = (error: unknown) => {
+    console.error(`Failed to restore persisted state "${options.key}":`, error);
+  };
+
+  // Persistence starts once hydration ends, even when it failed
+  const finishHydration = () => {
+    hydrated = true;
+  };
+
+  let ready: Promise<void> | null = null;
+  try {
+    const raw = storage.getItem(options.key);
+    if (raw instanceof Promise) {
+      ready = raw.then(apply).catch(restoreFailed).finally(finishHydration);
+    } else {
+      apply(raw);
+    }
+  } catch (error) {
+    restoreFailed(error);
+  } finally {
+    if (!ready) {
+      finishHydration();
+    }
+  }
+
+  const unsubscribe = subscribe(stateObj, () => {
+    // Writes before hydration would clobber the stored value
+    if (!hydrated || stopped) {
+      return;
+    }
+    if (wait > 0) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(write, wait);
+    } else {
+      write();
+    }
+  });
+
+  return {
+    ready: ready ?? Promise.resolve(),
+    isHydrated: () => hydrated,
+    flush: write,
+    clear: async () => {
+      lastWritten = null;
+      await storage.removeItem(options.key);
+      debugLog("Persist", `Cleared persisted state: ${options.key}`);
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      unsubscribe();
+    },
+  };
+}
@@ -9,6 +9,8 @@ import {
   Router,
   RouteContext,
   createLink as createRouterLink,
+  routeHref,
+  currentRoutePath,
 } from "../router.js";
 import { ElementBuilder } from "./builder.js";
 
@@ -23,12 +25,12 @@ export class LinkBuilder extends ElementBuilder<HTMLAnchorElement> {
   constructor(to?: string) {
     super("a");
     if (to) this.toPath = to;
-    this.element.href = this.toPath;
+    this.element.href = routeHref(this.toPath);
   }
 
   to(path: string): this {
     this.toPath = path;
-    this.element.href = path;
+    this.element.href = routeHref(path);
     return this;
   }
 
@@ -45,7 +47,7 @@ export class LinkBuilder extends ElementBuilder<HTMLAnchorElement> {
   build(): HTMLAnchorElement {
     if (this.activeClassName) {
       const updateActiveClass = () => {
-        const currentPath = window.location.pathname;
+        const currentPath = currentRoutePath();
         const isActive = this.isExact
           ? currentPath === this.toPath
           : currentPath.startsWith(this.toPath);
@@ -81,7 +83,7 @@ export function Link(
   children: string | HTMLElement | (string | HTMLElement)[],
 ): HTMLAnchorElement {
   const link = document.createElement("a");
-  link.href = props.to;
+  link.href = routeHref(props.to);
 
   if (props.class) {
     link.className = props.class;
@@ -104,7 +106,7 @@ export function Link(
   // Handle active class
   if (props.activeClass) {
     const updateActiveClass = () => {
-      const currentPath = window.location.pathname;
+      const currentPath = currentRoutePath();
       const isActive = props.exact
         ? currentPath === props.to
         : currentPath.startsWith(props.to);
@@ -199,7 +201,7 @@ export class BreadcrumbBuilder extends ElementBuilder<HTMLElement> {
   build(): HTMLElement {
     const updateBreadcrumb = () => {
       this.element.innerHTML = "";
-      const paths = window.location.pathname.split("/").filter(Boolean);
+      const paths = currentRoutePath().split("/").filter(Boolean);
 
       // Home link
       const homeLink = Link({ to: "/", class: "breadcrumb-item" }, "Home");
@@ -257,7 +259,7 @@ export function Breadcrumb(
 
   const updateBreadcrumb = () => {
     nav.innerHTML = "";
-    const paths = window.location.pathname.split("/").filter(Boolean);
+    const paths = currentRoutePath().split("/").filter(Boolean);
 
     // Home link
     const homeLink = Link({ to: "/", class: "breadcrumb-item" }, "Home");
@@ -0,0 +1,476 @@
+/**
+ * Rynex Cross-Tab Sync
+ * Keep reactive state and stores in sync across browser tabs
+ */
+
+import { batch, onPatch, toRaw, writePath, StatePatch } from "../state.js";
+import { debugLog, debugWarn } from "../debug.js";
+
+export interface SyncOptions<T extends object> {
+  channel: string;
+  include?: Array<keyof T>;
+}
+
+export interface SyncHandle {
+  tabId: string;
+  stop: () => void;
+}
+
+/**
+ * Logical timestamp of the last write to a path
+ * Ties on clock are broken by tab id so every tab picks the same winner
+ */
+interface Stamp {
+  clock: number;
+  tabId: string;
+}
+
+// Path segments that mean the same thing in every tab
+type SyncKey = string | number | boolean | null;
+
+interface SyncPatch {
+  path: SyncKey[];
+  stamp: Stamp;
+  // Encoded with encodeValue(); absent for deletions
+  value?: unknown;
+  deleted: boolean;
+}
+
+type SyncMessage =
+  | { type: "patch"; tabId: string; patches: SyncPatch[] }
+  | { type: "hello"; tabId: string }
+  | {
+      type: "snapshot";
+      tabId: string;
+      // Encoded value of every included top-level key
+      state: Record<string, unknown>;
+      stamps: Array<{ path: SyncKey[]; stamp: Stamp }>;
+    };
+
+interface Transport {
+  send: (data: string) => void;
+  close: () => void;
+}
+
+/**
+ * BroadcastChannel transport, with a storage-event fallback for browsers
+ * without it. Storage events only fire in other tabs, like BroadcastChannel.
+ * Messages travel as JSON text either way.
+ */
+function createTransport(
+  channel: string,
+  onMessage: (data: string) => void,
+): Transport {
+  if (typeof BroadcastChannel !== "undefined") {
+    const bc = new BroadcastChannel(`rynex-sync:${channel}`);
+    bc.onmessage = (event) => onMessage(event.data);
+    return {
+      send: (data) => bc.postMessage(data),
+      close: () => bc.close(),
+    };
+  }
+
+  debugWarn("Sync", "BroadcastChannel not supported, using storage events");
+  const storageKey = `rynex-sync:${channel}`;
+  let nonce = 0;
+
+  const listener = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) {
+      return;
+    }
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error("Failed to parse sync message:", error);
+    }
+  };
+  window.addEventListener("storage", listener);
+
+  return {
+    // The nonce guarantees a change event even for identical messages
+    send: (data) =>
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify({ message: data, nonce: ++nonce, at: Date.now() }),
+      ),
+    close: () => window.removeEventListener("storage", listener),
+  };
+}
+
+const TYPE_TAG = "$rynex";
+
+/**
+ * Copy a state value into JSON-safe form
+ * Maps, Sets and Dates are tagged so decodeValue() can rebuild them; cycles
+ * and BigInts throw, as they cannot be sent
+ */
+function encodeValue(value: unknown, seen = new Set<object>()): unknown {
+  const raw = toRaw(value);
+  if (typeof raw === "bigint") {
+    throw new TypeError("BigInt values cannot be synced");
+  }
+  if (raw === null || typeof raw !== "object") {
+    return raw;
+  }
+  if (seen.has(raw)) {
+    throw new TypeError("Circular values cannot be synced");
+  }
+  seen.add(raw);
+  try {
+    if (raw instanceof Map) {
+      return {
+        [TYPE_TAG]: "Map",
+        entries: Array.from(raw, ([key, entry]) => [
+          encodeValue(key, seen),
+          encodeValue(entry, seen),
+        ]),
+      };
+    }
+    if (raw instanceof Set) {
+      return {
+        [TYPE_TAG]: "Set",
+        values: Array.from(raw, (entry) => encodeValue(entry, seen)),
+      };
+    }
+    if (raw instanceof Date) {
+      return { [TYPE_TAG]: "Date", value: raw.toISOString() };
+    }
+    if (Array.isArray(raw)) {
+      return raw.map((entry) => encodeValue(entry, seen));
+    }
+    const result: Record<string, unknown> = {};
+    Object.entries(raw).forEach(([key, entry]) => {
+      result[key] = encodeValue(entry, seen);
+    });
+    // Keep plain objects that happen to use the tag key apart from tagged ones
+    return TYPE_TAG in result
+      ? { [TYPE_TAG]: "Object", value: result }
+      : result;
+  } finally {
+    seen.delete(raw);
+  }
+}
+
+/**
+ * Rebuild a value produced by encodeValue()
+ */
+function decodeValue(value: any): any {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  switch (value[TYPE_TAG]) {
+    case "Map":
+      return new Map(
+        value.entries.map(([key, entry]: [unknown, unknown]) => [
+          decodeValue(key),
+          decodeValue(entry),
+        ]),
+      );
+    case "Set":
+      return new Set(value.values.map(decodeValue));
+    case "Date":
+      return new Date(value.value);
+  }
+  const source = value[TYPE_TAG] === "Object" ? value.value : value;
+  const result: Record<string, unknown> = {};
+  Object.entries(source).forEach(([key, entry]) => {
+    result[key] = decodeValue(entry);
+  });
+  return result;
+}
+
+/**
+ * Read the value at a path of raw or plain data, if something is there
+ */
+function readPath(
+  root: unknown,
+  path: SyncKey[],
+): { found: boolean; value?: unknown } {
+  let current: any = root;
+  for (const key of path) {
+    current = toRaw(current);
+    if (current instanceof Map) {
+      if (!current.has(key)) return { found: false };
+      current = current.get(key);
+    } else if (current instanceof Set) {
+      if (!current.has(key)) return { found: false };
+      current = key;
+    } else if (
+      current !== null &&
+      typeof current === "object" &&
+      Object.prototype.hasOwnProperty.call(current, key as PropertyKey)
+    ) {
+      current = current[key as PropertyKey];
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * The part of a patch path other tabs can follow
+ * Object Map keys, object Set members and symbols are only meaningful in
+ * this tab, so the path stops before them and the whole value is sent
+ */
+function syncablePath(path: unknown[]): SyncKey[] {
+  const end = path.findIndex(
+    (key) =>
+      key !== null &&
+      typeof key !== "string" &&
+      typeof key !== "number" &&
+      typeof key !== "boolean",
+  );
+  return (end === -1 ? path : path.slice(0, end)) as SyncKey[];
+}
+
+function isPrefix(prefix: SyncKey[], path: SyncKey[]): boolean {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((key, i) => Object.is(key, path[i]))
+  );
+}
+
+function isNewer(a: Stamp, b: Stamp | undefined): boolean {
+  if (!b) return true;
+  if (a.clock !== b.clock) return a.clock > b.clock;
+  return a.tabId > b.tabId;
+}
+
+/**
+ * Synchronize a reactive state object or store across tabs
+ * Local writes are sent as the patches onPatch() reports, batched once per
+ * tick; incoming patches are applied without being echoed back. Concurrent
+ * writes resolve last-writer-wins per path using Lamport clocks, where a
+ * write also covers everything beneath its path, so every tab settles on
+ * the same value. A new tab asks the others for a full snapshot.
+ * Usage: syncAcrossTabs(cartStore, { channel: 'cart', include: ['items'] })
+ */
+export function syncAcrossTabs<T extends object>(
+  target: T | { state: T; getState: () => T },
+  options: SyncOptions<T>,
+): SyncHandle {
+  if (!options || !options.channel) {
+    debugWarn("Sync", "syncAcrossTabs() requires a channel name");
+    throw new Error("Invalid sync options: channel is required");
+  }
+
+  const stateObj: T =
+    "state" in target && "getState" in target ? target.state : (target as T);
+  const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  // Last write to each path, keyed by the path's JSON
+  const stamps = new Map<string, { path: SyncKey[]; stamp: Stamp }>();
+  let clock = 0;
+  let applyingRemote = false;
+  let stopped = false;
+  // Local patches not yet sent
+  let outgoing: SyncPatch[] = [];
+
+  const isIncluded = (key: unknown) =>
+    typeof key === "string" &&
+    (!options.include || options.include.includes(key as keyof T));
+
+  const send = (message: SyncMessage) => {
+    try {
+      transport.send(JSON.stringify(message));
+    } catch (error) {
+      console.error("Failed to send sync message:", error);
+    }
+  };
+
+  /**
+   * Record a write to path, dropping the older stamps it overwrote
+   */
+  const stampPath = (path: SyncKey[], stamp: Stamp) => {
+    stamps.forEach((entry, id) => {
+      if (isPrefix(path, entry.path) && !isNewer(entry.stamp, stamp)) {
+        stamps.delete(id);
+      }
+    });
+    stamps.set(JSON.stringify(path), { path, stamp });
+  };
+
+  /**
+   * Apply a remote write unless a newer one covers its path
+   * Newer writes beneath the path are put back afterwards, so the outcome
+   * does not depend on the order writes arrive in
+   */
+  const applyPatch = (
+    path: SyncKey[],
+    stamp: Stamp,
+    value: unknown,
+    deleted: boolean,
+  ) => {
+    clock = Math.max(clock, stamp.clock);
+    for (let i = 1; i <= path.length; i++) {
+      const covering = stamps.get(JSON.stringify(path.slice(0, i)));
+      if (covering && !isNewer(stamp, covering.stamp)) {
+        debugLog("Sync", `Ignoring stale write to ${path.join(".")}`);
+        return;
+      }
+    }
+
+    const raw = toRaw(stateObj);
+    const newer = Array.from(stamps.values())
+      .filter(
+        (entry) =>
+          entry.path.length > path.length &&
+          isPrefix(path, entry.path) &&
+          isNewer(entry.stamp, stamp),
+      )
+      .sort((a, b) => a.path.length - b.path.length)
+      .map((entry) => ({ path: entry.path, ...readPath(raw, entry.path) }));
+
+    writePath(stateObj, path, value, deleted);
+    newer.forEach((entry) =>
+      writePath(stateObj, entry.path, entry.value, !entry.found),
+    );
+    stampPath(path, stamp);
+  };
+
+  const applyRemote = (fn: () => void) => {
+    applyingRemote = true;
+    try {
+      batch(fn);
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const handleMessage = (message: SyncMessage) => {
+    if (!message || message.tabId === tabId) {
+      return;
+    }
+
+    if (message.type === "hello") {
+      // Bring the new tab up to date with everything we hold
+      const raw = toRaw(stateObj) as Record<string, unknown>;
+      const snapshot: Record<string, unknown> = {};
+      try {
+        Object.keys(raw)
+          .filter(isIncluded)
+          .forEach((key) => {
+            snapshot[key] = encodeValue(raw[key]);
+          });
+      } catch (error) {
+        console.error("Failed to send sync message:", error);
+        return;
+      }
+      send({
+        type: "snapshot",
+        tabId,
+        state: snapshot,
+        stamps: Array.from(stamps.values()),
+      });
+      return;
+    }
+
+    if (message.type === "snapshot") {
+      const remote: Record<string, unknown> = {};
+      Object.entries(message.state).forEach(([key, value]) => {
+        remote[key] = decodeValue(value);
+      });
+      const stamped = new Map(
+        message.stamps.map((entry) => [JSON.stringify(entry.path), entry]),
+      );
+      // Keys nobody wrote since loading still replace this tab's initial
+      // values; their zero clock loses to any real write
+      Object.keys(remote)
+        .filter(isIncluded)
+        .forEach((key) => {
+          const id = JSON.stringify([key]);
+          if (!stamped.has(id)) {
+            stamped.set(id, {
+              path: [key],
+              stamp: { clock: 0, tabId: message.tabId },
+            });
+          }
+        });
+
+      applyRemote(() => {
+        Array.from(stamped.values())
+          .filter((entry) => isIncluded(entry.path[0]))
+          .sort((a, b) => a.path.length - b.path.length)
+          .forEach((entry) => {
+            const { found, value } = readPath(remote, entry.path);
+            applyPatch(entry.path, entry.stamp, value, !found);
+          });
+      });
+      return;
+    }
+
+    applyRemote(() => {
+      message.patches
+        .filter((patch) => isIncluded(patch.path[0]))
+        .forEach((patch) =>
+          applyPatch(
+            patch.path,
+            patch.stamp,
+            decodeValue(patch.value),
+            patch.deleted,
+          ),
+        );
+    });
+    debugLog("Sync", `Applied ${message.patches.length} remote patch(es)`);
+  };
+
+  const transport = createTransport(options.channel, (data) => {
+    let message: SyncMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      console.error("Failed to parse sync message:", error);
+      return;
+    }
+    handleMessage(message);
+  });
+
+  const flush = () => {
+    const patches = outgoing;
+    outgoing = [];
+    if (!stopped && patches.length > 0) {
+      send({ type: "patch", tabId, patches });
+    }
+  };
+
+  const unsubscribe = onPatch(stateObj, (patch: StatePatch) => {
+    if (applyingRemote || !isIncluded(patch.path[0])) {
+      return;
+    }
+
+    const path = syncablePath(patch.path);
+    const { found, value } =
+      path.length === patch.path.length
+        ? { found: !patch.deleted, value: patch.newValue }
+        : readPath(toRaw(stateObj), path);
+
+    let encoded: unknown;
+    try {
+      encoded = found ? encodeValue(value) : undefined;
+    } catch (error) {
+      console.error("Failed to broadcast state change:", error);
+      return;
+    }
+
+    const stamp = { clock: ++clock, tabId };
+    stampPath(path, stamp);
+    if (outgoing.length === 0) {
+      queueMicrotask(flush);
+    }
+    outgoing.push({ path, stamp, value: encoded, deleted: !found });
+  });
+
+  send({ type: "hello", tabId });
+
+  return {
+    tabId,
+    stop: () => {
+      stopped = true;
+      unsubscribe();
+      transport.close();
+    },
+  };
+}
@@ -3,74 +3,221 @@
  * Utility functions for conditional rendering, fragments, etc.
  */
 
-import { createElement, DOMProps, DOMChildren } from "../dom.js";
-import { effect } from "../state.js";
+import {
+  createElement,
+  appendChildren,
+  markBound,
+  trackRegion,
+  regionNodes,
+  DOMChildren,
+} from "../dom.js";
+import { effect, createRoot, getOwner, onCleanup } from "../state.js";
+import { debugWarn } from "../debug.js";
+import { captureContext, runWithContext } from "./context.js";
 
 /**
  * Fragment - render children without wrapper
+ * Text, nodes and reactive getters are all kept
  */
-export function fragment(...children: DOMChildren[]): HTMLElement[] {
-  const flat = children
-    .flat(Infinity)
-    .filter((child) => child !== null && child !== undefined) as any[];
-  return flat.filter((child) => child instanceof HTMLElement) as HTMLElement[];
+export function fragment(...children: DOMChildren[]): DocumentFragment {
+  const result = document.createDocumentFragment();
+  appendChildren(result, children);
+  return result;
+}
+
+/**
+ * Comment-anchored region re-rendered whenever `select()` changes
+ * Nodes are inserted before the anchor, so no wrapper element is needed;
+ * each branch renders in its own scope, disposed when the branch switches.
+ */
+function anchoredBranch<K>(
+  select: () => K,
+  render: (key: K) => DOMChildren,
+  label: string,
+  same: (a: K, b: K) => boolean = Object.is,
+): DocumentFragment {
+  const result = document.createDocumentFragment();
+  const anchor = document.createComment(label);
+  result.appendChild(anchor);
+  markBound(anchor);
+
+  let nodes: Node[] = [];
+  trackRegion(anchor, () => nodes);
+  let disposeBranch: (() => void) | null = null;
+  let currentKey: K;
+  let rendered = false;
+
+  effect(() => {
+    const key = select();
+    if (rendered && same(key, currentKey)) {
+      return;
+    }
+    rendered = true;
+    currentKey = key;
+
+    disposeBranch?.();
+    regionNodes(nodes).forEach((node) => node.parentNode?.removeChild(node));
+
+    const branch = document.createDocumentFragment();
+    createRoot((dispose) => {
+      disposeBranch = dispose;
+      appendChildren(branch, [render(key)]);
+    });
+    nodes = Array.from(branch.childNodes);
+    anchor.parentNode?.insertBefore(branch, anchor);
+  });
+
+  if (getOwner()) {
+    onCleanup(() => {
+      disposeBranch?.();
+      disposeBranch = null;
+    });
+  }
+
+  return result;
+}
+
+type Condition<T> = T | (() => T);
+
+function readCondition<T>(condition: Condition<T>): T {
+  return typeof condition === "function" ? (condition as () => T)() : condition;
+}
+
+function renderContent<T>(
+  content: DOMChildren | ((value: T) => DOMChildren) | undefined,
+  value: T,
+): DOMChildren {
+  return typeof content === "function"
+    ? (content as (value: T) => DOMChildren)(value)
+    : content;
+}
+
+export interface ShowProps<T> {
+  when: Condition<T>;
+  fallback?: DOMChildren | (() => DOMChildren);
+  children?: DOMChildren | ((value: NonNullable<T>) => DOMChildren);
+}
+
+// Branch key of a falsy condition, so every falsy value keeps the fallback
+const HIDDEN = Symbol("rynex.hidden");
+
+/**
+ * Render children while `when` is truthy, otherwise the fallback
+ * Children are keyed by the value: when it changes to another truthy value
+ * (user A to user B), function children re-render with the new one in a
+ * fresh scope. Going between falsy values keeps the fallback.
+ * Usage: Show({ when: () => state.user, children: (user) => text(user.name) })
+ */
+export function Show<T>(props: ShowProps<T>): DocumentFragment {
+  return anchoredBranch<T | typeof HIDDEN>(
+    () => readCondition(props.when) || HIDDEN,
+    (value) =>
+      value === HIDDEN
+        ? renderContent(props.fallback, undefined)
+        : renderContent(props.children, value as NonNullable<T>),
+    "show",
+  );
+}
+
+export interface MatchCase<T = any> {
+  when: Condition<T>;
+  children?: DOMChildren | ((value: NonNullable<T>) => DOMChildren);
+}
+
+const MATCH = Symbol("rynex.match");
+
+/**
+ * A case for Switch
+ */
+export function Match<T>(props: MatchCase<T>): MatchCase<T> {
+  return { ...props, [MATCH]: true } as MatchCase<T>;
+}
+
+/**
+ * Render the first Match whose condition is truthy, otherwise the fallback
+ * Like Show, the matched case re-renders when its value changes.
+ * Usage: Switch({ fallback: text('Idle'), children: [Match({ when: () => s.loading, children: spinner() })] })
+ */
+export function Switch(props: {
+  fallback?: DOMChildren | (() => DOMChildren);
+  children: MatchCase | MatchCase[];
+}): DocumentFragment {
+  const cases = (
+    Array.isArray(props.children) ? props.children : [props.children]
+  ).filter((child) => child && MATCH in child);
+
+  return anchoredBranch(
+    () => {
+      for (let index = 0; index < cases.length; index++) {
+        const value = readCondition(cases[index].when);
+        if (value) {
+          return { index, value };
+        }
+      }
+      return { index: -1, value: undefined };
+    },
+    ({ index, value }) =>
+      index === -1
+        ? renderContent(props.fallback, undefined)
+        : renderContent(cases[index].children, value),
+    "switch",
+    (a, b) => a.index === b.index && Object.is(a.value, b.value),
+  );
 }
 
 /**
  * Conditional rendering - show content when condition is true
+ * A getter condition makes it reactive, rendered in place without a wrapper
  */
 export function when(
-  condition: boolean,
+  condition: boolean | (() => boolean),
   content: () => HTMLElement | DOMChildren,
-): HTMLElement | null {
+): HTMLElement | DocumentFragment | null {
+  if (typeof condition === "function") {
+    return Show({ when: condition, children: () => content() });
+  }
   return condition ? (content() as HTMLElement) : null;
 }
 
 /**
  * Show/hide based on condition with reactive support
  * Usage: show(state.visible, element) or show(() => state.count > 0, element)
- * Properly toggles DOM presence (not just display:none)
+ * Properly toggles DOM presence (not just display:none), in place
  */
 export function show(
   condition: boolean | (() => boolean),
-  content: HTMLElement,
-): HTMLElement {
-  const container = createElement("div", { "data-conditional": "true" });
-  let isAttached = false;
-
-  const updateVisibility = (visible: boolean) => {
-    if (visible && !isAttached) {
-      container.appendChild(content);
-      isAttached = true;
-    } else if (!visible && isAttached) {
-      if (container.contains(content)) {
-        container.removeChild(content);
-      }
-      isAttached = false;
-    }
-  };
-
-  if (typeof condition === "function") {
-    // Reactive condition
-    effect(() => {
-      updateVisibility(condition());
-    });
-  } else {
-    // Static condition
-    updateVisibility(condition);
-  }
-
-  return container;
+  content: HTMLElement | (() => DOMChildren),
+): DocumentFragment {
+  return Show({ when: condition, children: content });
 }
 
 /**
  * Iterate over array and render items
+ * Pass a getter (or signal) instead of an array for a reactive keyed list:
+ * rows are matched by key, reused with their DOM and internal state, moved
+ * with a minimal number of DOM operations, and disposed when removed. A new
+ * item under an existing key re-renders its row; keys must be unique.
+ * Usage: each(() => state.todos, (todo) => todoRow(todo), (todo) => todo.id)
  */
 export function each<T>(
   items: T[],
   renderFn: (item: T, index: number) => HTMLElement,
   keyFn?: (item: T, index: number) => string | number,
-): HTMLElement[] {
+): HTMLElement[];
+export function each<T>(
+  items: () => T[],
+  renderFn: (item: T, index: number) => HTMLElement,
+  keyFn?: (item: T, index: number) => unknown,
+): DocumentFragment;
+export function each<T>(
+  items: T[] | (() => T[]),
+  renderFn: (item: T, index: number) => HTMLElement,
+  keyFn?: (item: T, index: number) => unknown,
+): HTMLElement[] | DocumentFragment {
+  if (typeof items === "function") {
+    return keyedList(items, renderFn, keyFn);
+  }
+
   return items.map((item, index) => {
     const element = renderFn(item, index);
     if (keyFn) {
@@ -80,14 +227,176 @@ export function each<T>(
   });
 }
 
+interface ListRow<T> {
+  key: unknown;
+  item: T;
+  node: HTMLElement;
+  dispose: () => void;
+}
+
+/**
+ * Reactive keyed list anchored by a comment node
+ */
+function keyedList<T>(
+  items: () => T[],
+  renderFn: (item: T, index: number) => HTMLElement,
+  keyFn?: (item: T, index: number) => unknown,
+): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  const endAnchor = document.createComment("each");
+  fragment.appendChild(endAnchor);
+  markBound(endAnchor);
+  let rows: ListRow<T>[] = [];
+  trackRegion(endAnchor, () => rows.map((row) => row.node));
+
+  const createRow = (item: T, index: number, key: unknown): ListRow<T> =>
+    createRoot((dispose) => {
+      const node = renderFn(item, index);
+      if (keyFn && node instanceof HTMLElement) {
+        node.dataset.key = String(key);
+      }
+      return { key, item, node, dispose };
+    });
+
+  effect(() => {
+    const list = items() || [];
+    const host = endAnchor.parentNode;
+    if (!host) {
+      return;
+    }
+
+    // Old rows may share a key when the previous list had duplicates
+    const oldIndexesByKey = new Map<unknown, number[]>();
+    rows.forEach((row, index) => {
+      const indexes = oldIndexesByKey.get(row.key);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        oldIndexesByKey.set(row.key, [index]);
+      }
+    });
+
+    // Match new items to old rows; -1 marks a row that must be created
+    const sources: number[] = [];
+    const seenKeys = new Set<unknown>();
+    const replaced: number[] = [];
+    let duplicates = 0;
+    const nextRows: ListRow<T>[] = list.map((item, index) => {
+      const key = keyFn ? keyFn(item, index) : item;
+      if (seenKeys.has(key)) {
+        duplicates++;
+        sources.push(-1);
+        return createRow(item, index, key);
+      }
+      seenKeys.add(key);
+
+      const oldIndex = oldIndexesByKey.get(key)?.shift();
+      if (oldIndex !== undefined) {
+        if (rows[oldIndex].item === item) {
+          sources.push(oldIndex);
+          return rows[oldIndex];
+        }
+        // Same key, different item: the row would show stale data
+        replaced.push(oldIndex);
+      }
+      sources.push(-1);
+      return createRow(item, index, key);
+    });
+    if (duplicates > 0) {
+      debugWarn(
+        "Each",
+        `each() got ${duplicates} item(s) whose key repeats an earlier item; rendering them as separate rows`,
+      );
+    }
+
+    // Remove and dispose rows that are gone or re-rendered
+    const removed = replaced.concat(...oldIndexesByKey.values());
+    removed.forEach((oldIndex) => {
+      const row = rows[oldIndex];
+      row.dispose();
+      if (row.node.parentNode === host) {
+        host.removeChild(row.node);
+      }
+    });
+
+    // Rows on the longest increasing subsequence of old positions stay put;
+    // walk backwards inserting everything else before its successor
+    const stable = new Set(longestIncreasingSubsequence(sources));
+    for (let i = nextRows.length - 1; i >= 0; i--) {
+      const nextSibling =
+        i + 1 < nextRows.length ? nextRows[i + 1].node : endAnchor;
+      if (sources[i] === -1 || !stable.has(i)) {
+        host.insertBefore(nextRows[i].node, nextSibling);
+      }
+    }
+
+    rows = nextRows;
+  });
+
+  if (getOwner()) {
+    onCleanup(() => {
+      rows.forEach((row) => row.dispose());
+    });
+  }
+
+  return fragment;
+}
+
+/**
+ * Indices of the longest strictly increasing subsequence, ignoring -1 entries
+ */
+function longestIncreasingSubsequence(sequence: number[]): number[] {
+  const predecessors: number[] = [];
+  const tails: number[] = [];
+
+  for (let i = 0; i < sequence.length; i++) {
+    const value = sequence[i];
+    if (value === -1) {
+      continue;
+    }
+
+    // Binary search for the first tail whose value is >= current
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    predecessors[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+
+  const result: number[] = [];
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (index !== -1) {
+    result.push(index);
+    index = predecessors[index];
+  }
+  return result.reverse();
+}
+
 /**
  * Switch case rendering
+ * Pass a getter as the value to switch reactively, in place
  */
 export function switchCase<T>(
-  value: T,
+  value: T | (() => T),
   cases: Record<string, () => HTMLElement>,
   defaultCase?: () => HTMLElement,
-): HTMLElement | null {
+): HTMLElement | DocumentFragment | null {
+  if (typeof value === "function") {
+    return anchoredBranch(
+      () => String((value as () => T)()),
+      (key) => (cases[key] ? cases[key]() : defaultCase ? defaultCase() : null),
+      "switch",
+    );
+  }
+
   const key = String(value);
   if (cases[key]) {
     return cases[key]();
@@ -109,26 +418,121 @@ export function dynamic(
   return createElement(component, props, ...children);
 }
 
+type PortalTarget = string | Element | null;
+
+/**
+ * Fragment returned by portal(); dispose() removes the content
+ */
+export type PortalFragment = DocumentFragment & { dispose: () => void };
+
 /**
  * Portal - render content in a different DOM location
+ * Content is mounted into the target once the portal itself is in the
+ * document, and removed when the owning scope is disposed or dispose() is
+ * called; outside a reactive scope, call dispose() yourself. A getter target
+ * moves the mounted content whenever it changes. Function children render
+ * at mount time, in their own scope, with the context of the caller.
+ * Usage: portal(() => modal(), () => state.fullscreen ? 'body' : '#modal-root')
  */
 export function portal(
-  children: DOMChildren[],
-  target: string | HTMLElement,
-): HTMLElement {
-  const container =
-    typeof target === "string" ? document.querySelector(target) : target;
-  if (container) {
-    const flat = children.flat(Infinity);
-    flat.forEach((child) => {
-      if (child instanceof HTMLElement) {
-        container.appendChild(child);
-      } else if (typeof child === "string" || typeof child === "number") {
-        container.appendChild(document.createTextNode(String(child)));
-      }
+  children: DOMChildren[] | (() => DOMChildren),
+  target: PortalTarget | (() => PortalTarget) = document.body,
+): PortalFragment {
+  const result = document.createDocumentFragment();
+  const anchor = document.createComment("portal");
+  result.appendChild(anchor);
+  markBound(anchor);
+
+  const context = captureContext();
+  // Content lives between two markers inside the target, so it can be moved
+  // or removed as a whole even when reactive children change its nodes
+  const start = document.createComment("portal-start");
+  const end = document.createComment("portal-end");
+  let disposeContent: (() => void) | null = null;
+  let observer: MutationObserver | null = null;
+  let unmounted = false;
+
+  const takeContent = (): DocumentFragment => {
+    const range = document.createDocumentFragment();
+    if (!start.parentNode) {
+      return range;
+    }
+    let node: Node | null = start;
+    while (node) {
+      const next: Node | null = node === end ? null : node.nextSibling;
+      range.appendChild(node);
+      node = next;
+    }
+    return range;
+  };
+
+  const resolveTarget = (): Element | null => {
+    const value = typeof target === "function" ? target() : target;
+    const container =
+      typeof value === "string" ? document.querySelector(value) : value;
+    if (!container) {
+      debugWarn("Portal", `Portal target not found: ${String(value)}`);
+    }
+    return container;
+  };
+
+  const mountContent = () => {
+    observer?.disconnect();
+    observer = null;
+    if (unmounted || disposeContent) {
+      return;
+    }
+
+    createRoot((dispose) => {
+      disposeContent = dispose;
+      const content = document.createDocumentFragment();
+      content.appendChild(start);
+      runWithContext(context, () =>
+        appendChildren(
+          content,
+          typeof children === "function" ? [children()] : children,
+        ),
+      );
+      content.appendChild(end);
+
+      effect(() => {
+        // Without a target the content is held until one appears
+        (resolveTarget() || content).appendChild(takeContent());
+      });
     });
+  };
+
+  const tryMount = (): boolean => {
+    if (anchor.isConnected) {
+      mountContent();
+      return true;
+    }
+    return false;
+  };
+
+  // The portal is usually inserted right after it is created; otherwise wait
+  // until it is
+  queueMicrotask(() => {
+    if (unmounted || tryMount()) {
+      return;
+    }
+    observer = new MutationObserver(tryMount);
+    observer.observe(document, { childList: true, subtree: true });
+  });
+
+  const dispose = () => {
+    unmounted = true;
+    observer?.disconnect();
+    observer = null;
+    disposeContent?.();
+    disposeContent = null;
+    takeContent();
+  };
+  if (getOwner()) {
+    onCleanup(dispose);
   }
-  return createElement("div", { "data-portal": true });
+
+  return Object.assign(result, { dispose });
 }
 
 /**
@@ -5,11 +5,37 @@
  */
 
 // State management (Proxy-based reactivity)
-export { state, computed, effect, subscribe, batch } from "./state.js";
+export {
+  state,
+  computed,
+  signal,
+  effect,
+  subscribe,
+  batch,
+  flushSync,
+  toRaw,
+  markRaw,
+  reactiveMap,
+  reactiveSet,
+  createRoot,
+  getOwner,
+  runWithOwner,
+  untrack,
+  onCleanup,
+} from "./state.js";
+export type {
+  Owner,
+  Signal,
+  Computed,
+  WritableComputed,
+  WritableComputedOptions,
+} from "./state.js";
 
 // DOM manipulation (direct, no VDOM)
 export {
   createElement,
+  svgElement,
+  mathElement,
   createTextNode,
   mount,
   unmount,
@@ -29,6 +55,13 @@ export {
   off,
 } from "./dom.js";
 
+// Two-way form binding
+export { bind } from "./binding.js";
+export type { Binding, BindOptions } from "./binding.js";
+
+// Event system (delegated, scope-released handlers)
+export type { EventHandlerOptions } from "./events.js";
+
 // Error System
 export {
   RynexError,
@@ -50,8 +83,30 @@ export {
 } from "./errors.js";
 
 // Renderer
-export { render, createComponent, mountComponent } from "./renderer.js";
-export type { ComponentInstance } from "./renderer.js";
+export {
+  render,
+  hydrate,
+  createComponent,
+  mountComponent,
+} from "./renderer.js";
+export type { ComponentInstance, RenderOptions } from "./renderer.js";
+
+// Custom elements
+export { defineElement } from "./custom-element.js";
+export type {
+  DefineElementOptions,
+  PropDefinition,
+  ElementContext,
+  ElementComponent,
+} from "./custom-element.js";
+
+// Head management
+export { head, renderHead } from "./head.js";
+export type { HeadConfig, MetaTag, LinkTag, ScriptTag } from "./head.js";
+
+// DOM morphing
+export { morph } from "./morph.js";
+export type { MorphReport } from "./morph.js";
 
 // Debug utilities
 export { enableDebug, disableDebug, isDebugEnabled } from "./debug.js";
@@ -63,6 +118,9 @@ export * from "./helpers/index.js";
 export {
   Router,
   createRouter,
+  createBrowserHistory,
+  createHashHistory,
+  createMemoryHistory,
   createLink,
   useParams,
   useQuery,
@@ -70,6 +128,7 @@ export {
 } from "./router.js";
 export type {
   RouteConfig,
+  RouteMeta,
   RouteContext,
   RouteComponent,
   RouteMiddleware,
@@ -77,6 +136,8 @@ export type {
   RouteParams,
   RouteQuery,
   NavigationOptions,
+  RouterOptions,
+  RouterHistory,
 } from "./router.js";
 
 // Types
@@ -0,0 +1,20 @@
+/**
+ * Rynex JSX Dev Runtime
+ * Entry used by the development JSX transform (rynex/jsx-dev-runtime)
+ */
+
+import { jsx, Component, JSX } from "./jsx-runtime.js";
+
+export { Fragment } from "./jsx-runtime.js";
+export type { JSX, Component } from "./jsx-runtime.js";
+
+/**
+ * Development variant of jsx(); source and self information is not used
+ */
+export function jsxDEV(
+  type: string | Component<any>,
+  props: Record<string, any> | null,
+  key?: string | number,
+): JSX.Element {
+  return jsx(type, props, key);
+}
@@ -0,0 +1,86 @@
+/**
+ * Rynex JSX Runtime
+ * Automatic runtime entry (rynex/jsx-runtime): JSX maps straight onto
+ * createElement, so markup and helper calls produce the same real DOM
+ */
+
+import { createElement, appendChildren, DOMProps, DOMChildren } from "./dom.js";
+
+type IntrinsicProps = DOMProps & {
+  children?: DOMChildren;
+  key?: string | number;
+  htmlFor?: string;
+};
+
+type HTMLIntrinsicElements = {
+  [K in keyof HTMLElementTagNameMap]: IntrinsicProps;
+};
+
+type SVGIntrinsicElements = {
+  [K in keyof SVGElementTagNameMap]: IntrinsicProps;
+};
+
+export namespace JSX {
+  export type Element =
+    HTMLElement | SVGElement | MathMLElement | DocumentFragment;
+
+  export interface ElementChildrenAttribute {
+    children: {};
+  }
+
+  export interface IntrinsicAttributes {
+    key?: string | number;
+  }
+
+  export interface IntrinsicElements
+    extends HTMLIntrinsicElements, SVGIntrinsicElements {
+    // Custom elements and anything else the typings do not list
+    [tag: string]: IntrinsicProps;
+  }
+}
+
+export type Component<P = {}> = (props: P) => JSX.Element;
+
+/**
+ * Group children without a wrapper element: <>...</>
+ */
+export function Fragment(props: { children?: DOMChildren }): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  if (props.children !== undefined) {
+    appendChildren(fragment, [props.children]);
+  }
+  return fragment;
+}
+
+/**
+ * Create an element or call a component for a JSX expression
+ * Function children stay reactive getters, `ref` is handled by createElement,
+ * and `key` becomes data-key so keyed morphing and lists can match it
+ */
+export function jsx(
+  type: string | Component<any>,
+  props: Record<string, any> | null,
+  key?: string | number,
+): JSX.Element {
+  if (typeof type === "function") {
+    return type(props || {});
+  }
+
+  const { children, htmlFor, ...rest } = props || {};
+  if (htmlFor !== undefined) {
+    rest.for = htmlFor;
+  }
+  if (key !== undefined && key !== null) {
+    rest["data-key"] = String(key);
+  }
+
+  return createElement(
+    type,
+    rest,
+    ...(children === undefined ? [] : [children]),
+  );
+}
+
+// Children arrays are flattened by createElement, so static lists need no
+// separate handling
+export const jsxs = jsx;
@@ -0,0 +1,355 @@
+/**
+ * Rynex DOM Morphing
+ * Patch an existing DOM tree toward a freshly rendered one instead of
+ * replacing it, so focus, selection, scroll positions and form values survive
+ */
+
+import { adoptProps, getRenderedValue, hasBindings } from "./dom.js";
+import { debugLog, isDebugEnabled } from "./debug.js";
+
+export interface MorphReport {
+  patched: number;
+  added: number;
+  removed: number;
+  moved: number;
+  replaced: number;
+}
+
+interface MorphContext {
+  report: MorphReport;
+  // Old elements that were swapped out, mapped to the nodes that took over
+  replacements: Map<Element, Element>;
+  changes: string[];
+}
+
+type FormControl = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+function isFormControl(node: Node): node is FormControl {
+  return (
+    node instanceof HTMLInputElement ||
+    node instanceof HTMLTextAreaElement ||
+    node instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Identity of a node among its siblings: data-key first, then id
+ */
+function keyOf(node: Node): string | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null;
+  }
+  const element = node as Element;
+  const key = element.getAttribute("data-key");
+  if (key !== null) {
+    return `key:${key}`;
+  }
+  return element.id ? `id:${element.id}` : null;
+}
+
+function describe(node: Node): string {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return node.nodeName;
+  }
+  const key = keyOf(node);
+  return key
+    ? `<${node.nodeName.toLowerCase()} ${key}>`
+    : `<${node.nodeName.toLowerCase()}>`;
+}
+
+/**
+ * Pair every new child with the old child it should become, or null
+ * Keyed nodes match by key anywhere in the list; unkeyed nodes match the
+ * next unused old node with the same tag, in order.
+ */
+function matchChildren(
+  fromParent: Node,
+  toParent: Node,
+): Array<[Node | null, Node]> {
+  const oldNodes = Array.from(fromParent.childNodes);
+  const keyed = new Map<string, Node>();
+  oldNodes.forEach((node) => {
+    const key = keyOf(node);
+    if (key !== null && !keyed.has(key)) {
+      keyed.set(key, node);
+    }
+  });
+
+  const used = new Set<Node>();
+  let cursor = 0;
+
+  return Array.from(toParent.childNodes).map((next): [Node | null, Node] => {
+    const key = keyOf(next);
+    let match: Node | null = null;
+
+    if (key !== null) {
+      const candidate = keyed.get(key);
+      if (
+        candidate &&
+        !used.has(candidate) &&
+        candidate.nodeName === next.nodeName
+      ) {
+        match = candidate;
+      }
+    } else {
+      for (let i = cursor; i < oldNodes.length; i++) {
+        const candidate = oldNodes[i];
+        if (
+          !used.has(candidate) &&
+          keyOf(candidate) === null &&
+          candidate.nodeName === next.nodeName
+        ) {
+          match = candidate;
+          cursor = i + 1;
+          break;
+        }
+      }
+    }
+
+    if (match) {
+      used.add(match);
+    }
+    return [match, next];
+  });
+}
+
+/**
+ * Bring a form control's live state over from the old node
+ * A value the user typed is kept unless the render asks for a different value
+ * than it did last time, i.e. unless the state behind it changed.
+ */
+function syncFormState(from: FormControl, to: FormControl): void {
+  for (const key of ["value", "checked"] as const) {
+    if (key === "checked" && !(from instanceof HTMLInputElement)) {
+      continue;
+    }
+    const next = getRenderedValue(to, key);
+    if (next === undefined) {
+      continue;
+    }
+    if (next !== getRenderedValue(from, key)) {
+      (from as any)[key] = next;
+    }
+  }
+}
+
+/**
+ * Copy live state into a node that is about to replace `from`
+ * Used for subtrees kept alive by reactive bindings, which must be swapped in
+ * whole rather than patched.
+ */
+function carryState(from: Node, to: Node, ctx: MorphContext): void {
+  if (from instanceof Element && to instanceof Element) {
+    ctx.replacements.set(from, to);
+    if (isFormControl(from) && isFormControl(to)) {
+      for (const key of ["value", "checked"] as const) {
+        if (key === "checked" && !(from instanceof HTMLInputElement)) {
+          continue;
+        }
+        const rendered = getRenderedValue(to, key);
+        if (
+          rendered === undefined ||
+          rendered === getRenderedValue(from, key)
+        ) {
+          (to as any)[key] = (from as any)[key];
+        }
+      }
+    }
+  }
+
+  matchChildren(from, to).forEach(([match, next]) => {
+    if (match) {
+      carryState(match, next, ctx);
+    }
+  });
+}
+
+function patchAttributes(from: Element, to: Element, ctx: MorphContext): void {
+  for (const { name, value } of Array.from(to.attributes)) {
+    if (from.getAttribute(name) !== value) {
+      from.setAttribute(name, value);
+      ctx.report.patched++;
+      ctx.changes.push(`set ${name} on ${describe(from)}`);
+    }
+  }
+  for (const { name } of Array.from(from.attributes)) {
+    if (!to.hasAttribute(name)) {
+      from.removeAttribute(name);
+      ctx.report.patched++;
+      ctx.changes.push(`removed ${name} from ${describe(from)}`);
+    }
+  }
+}
+
+/**
+ * Morph one node toward another; returns the node now in the document
+ */
+function morphNode(from: Node, to: Node, ctx: MorphContext): Node {
+  if (from.nodeName !== to.nodeName) {
+    from.parentNode?.replaceChild(to, from);
+    ctx.report.replaced++;
+    ctx.changes.push(`replaced ${describe(from)} with ${describe(to)}`);
+    return to;
+  }
+
+  if (!(from instanceof Element) || !(to instanceof Element)) {
+    if (from.nodeValue !== to.nodeValue) {
+      from.nodeValue = to.nodeValue;
+      ctx.report.patched++;
+      ctx.changes.push(`updated ${describe(from)}`);
+    }
+    return from;
+  }
+
+  // Effects of the new view write to `to`, so it has to be the one in the DOM
+  if (hasBindings(to)) {
+    carryState(from, to, ctx);
+    from.parentNode?.replaceChild(to, from);
+    ctx.report.replaced++;
+    ctx.changes.push(`swapped in bound ${describe(to)}`);
+    return to;
+  }
+
+  patchAttributes(from, to, ctx);
+  if (isFormControl(from) && isFormControl(to)) {
+    syncFormState(from, to);
+  }
+  adoptProps(to, from);
+  morphChildren(from, to, ctx);
+  return from;
+}
+
+function morphChildren(fromParent: Node, toParent: Node, ctx: MorphContext) {
+  const pairs = matchChildren(fromParent, toParent);
+  const kept = new Set(pairs.map(([match]) => match));
+
+  Array.from(fromParent.childNodes).forEach((node) => {
+    if (!kept.has(node)) {
+      fromParent.removeChild(node);
+      ctx.report.removed++;
+      ctx.changes.push(`removed ${describe(node)}`);
+    }
+  });
+
+  let cursor: Node | null = fromParent.firstChild;
+  for (const [match, next] of pairs) {
+    // Already in place; a swap inside morphNode keeps the position
+    if (match && match === cursor) {
+      cursor = cursor.nextSibling;
+      morphNode(match, next, ctx);
+      continue;
+    }
+
+    const node = match ? morphNode(match, next, ctx) : next;
+    fromParent.insertBefore(node, cursor);
+    if (match) {
+      ctx.report.moved++;
+      ctx.changes.push(`moved ${describe(node)}`);
+    } else {
+      ctx.report.added++;
+      ctx.changes.push(`added ${describe(node)}`);
+    }
+  }
+}
+
+interface ScrollPosition {
+  top: number;
+  left: number;
+}
+
+/**
+ * Patch `from` in place so it matches `to`, reusing existing nodes
+ * Returns the element now in the document: `from`, unless its root had to be
+ * swapped for `to`. Nodes with reactive bindings are swapped in whole, with
+ * focus, form values and scroll positions carried over.
+ * Usage: const current = morph(oldElement, component(props))
+ */
+export function morph<T extends Element>(from: T, to: T): T {
+  const ctx: MorphContext = {
+    report: { patched: 0, added: 0, removed: 0, moved: 0, replaced: 0 },
+    replacements: new Map(),
+    changes: [],
+  };
+
+  // Moving nodes drops focus and scroll offsets, so remember them first
+  const active =
+    document.activeElement && from.contains(document.activeElement)
+      ? document.activeElement
+      : null;
+  let selection: [number | null, number | null, string | null] | null = null;
+  if (
+    active instanceof HTMLInputElement ||
+    active instanceof HTMLTextAreaElement
+  ) {
+    try {
+      selection = [
+        active.selectionStart,
+        active.selectionEnd,
+        active.selectionDirection,
+      ];
+    } catch {
+      // Input types without a text selection
+    }
+  }
+
+  const scrolled = new Map<Element, ScrollPosition>();
+  [from, ...Array.from(from.querySelectorAll("*"))].forEach((element) => {
+    if (element.scrollTop || element.scrollLeft) {
+      scrolled.set(element, {
+        top: element.scrollTop,
+        left: element.scrollLeft,
+      });
+    }
+  });
+
+  const result = morphNode(from, to, ctx) as T;
+
+  const resolve = (element: Element): Element => {
+    let current = element;
+    while (ctx.replacements.has(current)) {
+      current = ctx.replacements.get(current)!;
+    }
+    return current;
+  };
+
+  scrolled.forEach((position, element) => {
+    const target = resolve(element);
+    if (target.isConnected) {
+      target.scrollTop = position.top;
+      target.scrollLeft = position.left;
+    }
+  });
+
+  if (active) {
+    const target = resolve(active);
+    if (target.isConnected && document.activeElement !== target) {
+      (target as HTMLElement).focus?.();
+    }
+    if (
+      selection &&
+      (target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement)
+    ) {
+      try {
+        target.setSelectionRange(
+          selection[0],
+          selection[1],
+          (selection[2] as "forward" | "backward" | "none") || undefined,
+        );
+      } catch {
+        // Selection is not supported for this input type
+      }
+    }
+  }
+
+  if (isDebugEnabled()) {
+    const { patched, added, removed, moved, replaced } = ctx.report;
+    debugLog(
+      "Morph",
+      `${patched} patched, ${added} added, ${removed} removed, ${moved} moved, ${replaced} swapped`,
+      ctx.changes,
+    );
+  }
+
+  return result;
+}
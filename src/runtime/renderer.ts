@@ -4,28 +4,46 @@
  */
 
 import { mount, unmount, replaceChildren } from "./dom.js";
-import { subscribe } from "./state.js";
+import {
+  subscribe,
+  isSubscribable,
+  createRoot,
+  getOwner,
+  onCleanup,
+} from "./state.js";
+import { morph } from "./morph.js";
 import { debugLog } from "./debug.js";
+import { isDevelopmentMode } from "./errors.js";
 
 export interface ComponentInstance {
   element: HTMLElement | null;
-  container: HTMLElement | null;
+  container: HTMLElement | ShadowRoot | null;
   update: () => void;
   unmount: () => void;
   unsubscribe?: () => void;
 }
 
+export interface RenderOptions {
+  // Patch the existing DOM on updates instead of replacing it
+  morph?: boolean;
+  // Adopt the markup already in the container on the first render
+  hydrate?: boolean;
+}
+
 const componentInstances = new WeakMap<Function, ComponentInstance>();
 let renderCounter = 0;
 
 /**
  * Render a component to a container element
  * Component should return an HTMLElement
+ * With { morph: true }, updates patch the mounted tree in place so focus,
+ * caret position, scroll offsets and typed input survive re-renders
  */
 export function render(
   component: Function,
-  container: HTMLElement,
+  container: HTMLElement | ShadowRoot,
   props: any = {},
+  options: RenderOptions = {},
 ): ComponentInstance {
   const instance: ComponentInstance = {
     element: null,
@@ -34,31 +52,62 @@ export function render(
     unmount: () => {},
   };
 
+  // Dispose function of the reactive scope owning the current view
+  let disposeView: (() => void) | null = null;
+
   const update = () => {
     const renderId = ++renderCounter;
     debugLog("Renderer", `Render #${renderId} starting`);
 
     try {
-      // Execute component function to get DOM element
-      const newElement = component(props) as HTMLElement;
+      // Execute component function inside its own scope to get DOM element
+      const previousDispose = disposeView;
+      const newElement = createRoot((dispose) => {
+        disposeView = dispose;
+        return component(props) as HTMLElement;
+      });
       debugLog("Renderer", `Render #${renderId} component executed`);
 
-      if (!instance.element) {
-        // Initial mount
+      const existing =
+        !instance.element && options.hydrate
+          ? (container.firstElementChild as HTMLElement | null)
+          : null;
+
+      if (existing) {
+        debugLog("Renderer", `Render #${renderId} hydrating existing markup`);
+        if (isDevelopmentMode()) {
+          reportMismatches(component, existing, newElement);
+        }
+        instance.element = morph(existing, newElement);
+      } else if (!instance.element) {
+        // Initial mount; statically prerendered markup gives way to the app
         debugLog("Renderer", `Render #${renderId} initial mount`);
+        if (
+          container instanceof HTMLElement &&
+          container.hasAttribute("data-prerendered")
+        ) {
+          container.textContent = "";
+          container.removeAttribute("data-prerendered");
+        }
         mount(newElement, container);
         instance.element = newElement;
+      } else if (options.morph) {
+        debugLog("Renderer", `Render #${renderId} morphing DOM`);
+        instance.element = morph(instance.element, newElement);
       } else {
         // Update - replace old element with new one
         debugLog("Renderer", `Render #${renderId} updating DOM`);
-        if (instance.element.parentElement) {
-          instance.element.parentElement.replaceChild(
+        if (instance.element.parentNode) {
+          instance.element.parentNode.replaceChild(
             newElement,
             instance.element,
           );
         }
         instance.element = newElement;
       }
+
+      // Effects of the replaced view must not keep firing
+      previousDispose?.();
       debugLog("Renderer", `Render #${renderId} complete`);
     } catch (error) {
       console.error("Error rendering component:", error);
@@ -66,6 +115,10 @@ export function render(
   };
 
   const unmountFn = () => {
+    if (disposeView) {
+      disposeView();
+      disposeView = null;
+    }
     if (instance.element) {
       unmount(instance.element);
       instance.element = null;
@@ -85,29 +138,179 @@ export function render(
   return instance;
 }
 
+/**
+ * Attach a component to server-rendered markup (see renderToString)
+ * Static nodes are kept and receive their event handlers and refs; nodes
+ * with reactive bindings are swapped for live ones. In development mode,
+ * differences between the markup and the client render are reported.
+ */
+export function hydrate(
+  component: Function,
+  container: HTMLElement | ShadowRoot,
+  props: any = {},
+  options: RenderOptions = {},
+): ComponentInstance {
+  return render(component, container, props, { ...options, hydrate: true });
+}
+
+const MAX_REPORTED_MISMATCHES = 10;
+
+/**
+ * Child nodes with adjacent text merged, as it is once parsed from HTML
+ */
+function normalizedChildren(node: Node): Array<Node | string> {
+  const children: Array<Node | string> = [];
+  node.childNodes.forEach((child) => {
+    const last = children[children.length - 1];
+    if (child.nodeType === Node.TEXT_NODE) {
+      if (typeof last === "string") {
+        children[children.length - 1] = last + child.nodeValue;
+      } else {
+        children.push(child.nodeValue || "");
+      }
+    } else {
+      children.push(child);
+    }
+  });
+  return children;
+}
+
+function describeNode(node: Node | string | undefined): string {
+  if (node === undefined) {
+    return "nothing";
+  }
+  if (typeof node === "string") {
+    return JSON.stringify(node);
+  }
+  return node instanceof Element
+    ? `<${node.localName}>`
+    : node.nodeName.toLowerCase();
+}
+
+function findMismatches(
+  server: Node,
+  client: Node,
+  path: string,
+  found: string[],
+): void {
+  if (found.length >= MAX_REPORTED_MISMATCHES) {
+    return;
+  }
+  if (server.nodeName !== client.nodeName) {
+    found.push(
+      `${path}: expected ${describeNode(client)}, found ${describeNode(server)}`,
+    );
+    return;
+  }
+
+  if (server instanceof Element && client instanceof Element) {
+    for (const { name, value } of Array.from(client.attributes)) {
+      const serverValue = server.getAttribute(name);
+      if (serverValue !== value) {
+        found.push(
+          `${path}: ${name} is ${JSON.stringify(serverValue)} in the markup, ${JSON.stringify(value)} on the client`,
+        );
+      }
+    }
+    for (const { name } of Array.from(server.attributes)) {
+      if (!client.hasAttribute(name)) {
+        found.push(`${path}: unexpected attribute ${name}`);
+      }
+    }
+  }
+
+  const serverChildren = normalizedChildren(server);
+  const clientChildren = normalizedChildren(client);
+  const count = Math.max(serverChildren.length, clientChildren.length);
+  for (let i = 0; i < count; i++) {
+    const serverChild = serverChildren[i];
+    const clientChild = clientChildren[i];
+    if (typeof serverChild === "string" || typeof clientChild === "string") {
+      if (serverChild !== clientChild) {
+        found.push(
+          `${path}: expected ${describeNode(clientChild)}, found ${describeNode(serverChild)}`,
+        );
+      }
+    } else if (!serverChild || !clientChild) {
+      found.push(
+        `${path}: expected ${describeNode(clientChild)}, found ${describeNode(serverChild)}`,
+      );
+    } else {
+      findMismatches(
+        serverChild,
+        clientChild,
+        `${path} > ${describeNode(clientChild)}:${i}`,
+        found,
+      );
+    }
+  }
+}
+
+function reportMismatches(
+  component: Function,
+  server: Element,
+  client: Element,
+): void {
+  const found: string[] = [];
+  findMismatches(server, client, describeNode(client), found);
+  if (found.length > 0) {
+    console.warn(
+      `[Rynex] Hydration mismatch in ${component.name || "component"}; the client render was applied:\n  ${found.join("\n  ")}`,
+    );
+  }
+}
+
 /**
  * Create a component that auto-updates when state changes
+ * Pass { morph: true } to patch the previous view instead of replacing it
  */
 export function createComponent(
   component: Function,
   stateObj?: any,
   props: any = {},
+  options: RenderOptions = {},
 ): HTMLElement {
-  const element = component(props) as HTMLElement;
+  let disposeView: (() => void) | null = null;
+  const renderView = () =>
+    createRoot((dispose) => {
+      disposeView = dispose;
+      return component(props) as HTMLElement;
+    });
+
+  const element = renderView();
 
   // If state object provided, subscribe to changes and re-render
-  if (stateObj && stateObj.__listeners) {
+  if (isSubscribable(stateObj)) {
     const container = document.createElement("div");
     container.appendChild(element);
 
-    subscribe(stateObj, () => {
-      const newElement = component(props) as HTMLElement;
-      replaceChildren(container, [newElement]);
+    const unsubscribe = subscribe(stateObj, () => {
+      const previousDispose = disposeView;
+      const newElement = renderView();
+      const current = container.firstElementChild as HTMLElement | null;
+      if (options.morph && current) {
+        morph(current, newElement);
+      } else {
+        replaceChildren(container, [newElement]);
+      }
+      previousDispose?.();
     });
 
+    // Tear down with the surrounding scope, if any
+    if (getOwner()) {
+      onCleanup(() => {
+        unsubscribe();
+        disposeView?.();
+      });
+    }
+
     return container;
   }
 
+  if (getOwner()) {
+    onCleanup(() => disposeView?.());
+  }
+
   return element;
 }
 
@@ -116,9 +319,10 @@ export function createComponent(
  */
 export function mountComponent(
   component: Function,
-  container: HTMLElement,
+  container: HTMLElement | ShadowRoot,
   props: any = {},
+  options: RenderOptions = {},
 ): () => void {
-  const instance = render(component, container, props);
+  const instance = render(component, container, props, options);
   return () => instance.unmount();
 }
@@ -4,7 +4,9 @@
  * Inspired by Express.js and Next.js routing patterns
  */
 
-import { state } from "./state.js";
+import { state, createRoot } from "./state.js";
+import { head, HeadConfig } from "./head.js";
+import { delegateHandlers } from "./events.js";
 
 export interface RouteParams {
   [key: string]: string;
@@ -22,8 +24,10 @@ export interface RouteContext {
   data?: any;
 }
 
+// Layouts (routes with children) place outlet where child routes render
 export type RouteComponent = (
   ctx: RouteContext,
+  outlet: HTMLElement,
 ) => HTMLElement | Promise<HTMLElement>;
 export type RouteMiddleware = (
   ctx: RouteContext,
@@ -31,6 +35,12 @@ export type RouteMiddleware = (
 ) => void | Promise<void>;
 export type RouteGuard = (ctx: RouteContext) => boolean | Promise<boolean>;
 
+export interface RouteMeta {
+  // Head tags while the route is shown
+  head?: HeadConfig | ((ctx: RouteContext) => HeadConfig);
+  [key: string]: any;
+}
+
 export interface RouteConfig {
   path: string;
   component?: RouteComponent;
@@ -38,10 +48,38 @@ export interface RouteConfig {
   children?: RouteConfig[];
   middleware?: RouteMiddleware[];
   guards?: RouteGuard[];
-  meta?: Record<string, any>;
+  meta?: RouteMeta;
   name?: string;
 }
 
+export interface RouterOptions {
+  // Defaults to routing.mode from rynex.config.js, else "history"
+  mode?: "history" | "hash" | "memory";
+  // Path the app is served under, e.g. /docs; defaults to routing.base
+  base?: string;
+  // Custom history; overrides mode
+  history?: RouterHistory;
+}
+
+/**
+ * Where the router reads and writes locations
+ * Locations are path + query + hash, e.g. /users/42?tab=posts#bio
+ */
+export interface RouterHistory {
+  readonly location: string;
+  push(url: string, state?: any): void;
+  replace(url: string, state?: any): void;
+  go(delta: number): void;
+  // Called when the location changes outside the router (back/forward)
+  listen(listener: () => void): () => void;
+  // href attribute for a location
+  createHref(url: string): string;
+  // Locations live in the URL fragment; the base then stays in the page path
+  readonly usesFragment?: boolean;
+  // Locations never reach the URL, so the router leaves link clicks alone
+  readonly inMemory?: boolean;
+}
+
 export interface NavigationOptions {
   replace?: boolean;
   state?: any;
@@ -52,6 +90,138 @@ interface CompiledRoute {
   pattern: RegExp;
   keys: string[];
   config: RouteConfig;
+  // Parent layouts first, the matched route last
+  chain: RouteConfig[];
+  // Params each level's path declares, including its parents'
+  levelKeys: string[][];
+}
+
+interface RouteLevel {
+  config: RouteConfig | null;
+  component: RouteComponent;
+  keys: string[];
+}
+
+interface RouteView {
+  config: RouteConfig | null;
+  params: RouteParams;
+  outlet: HTMLElement;
+  dispose: () => void;
+}
+
+type ProjectRouting = { mode?: "history" | "hash"; base?: string };
+
+// routing.mode and routing.base from rynex.config.js, injected by the build
+declare const __RYNEX_ROUTING__: ProjectRouting | undefined;
+
+function projectRouting(): ProjectRouting {
+  return typeof __RYNEX_ROUTING__ !== "undefined" ? __RYNEX_ROUTING__ : {};
+}
+
+// Last router from createRouter(), used by links built outside a router
+let activeRouter: Router | null = null;
+
+/**
+ * History backed by the URL path (/users/42)
+ */
+export function createBrowserHistory(): RouterHistory {
+  return {
+    get location() {
+      return (
+        window.location.pathname + window.location.search + window.location.hash
+      );
+    },
+    push: (url, state) => window.history.pushState(state, "", url),
+    replace: (url, state) => window.history.replaceState(state, "", url),
+    go: (delta) => window.history.go(delta),
+    listen(listener) {
+      window.addEventListener("popstate", listener);
+      return () => window.removeEventListener("popstate", listener);
+    },
+    createHref: (url) => url,
+  };
+}
+
+/**
+ * History backed by the URL fragment (#/users/42)
+ * Works on static hosts without an SPA fallback
+ */
+export function createHashHistory(): RouterHistory {
+  return {
+    get location() {
+      return window.location.hash.slice(1) || "/";
+    },
+    push: (url, state) => window.history.pushState(state, "", `#${url}`),
+    replace: (url, state) => window.history.replaceState(state, "", `#${url}`),
+    go: (delta) => window.history.go(delta),
+    listen(listener) {
+      window.addEventListener("hashchange", listener);
+      return () => window.removeEventListener("hashchange", listener);
+    },
+    createHref: (url) => `#${url}`,
+    usesFragment: true,
+  };
+}
+
+/**
+ * In-memory history that never touches the URL, for tests and embedded apps
+ */
+export function createMemoryHistory(initial: string = "/"): RouterHistory {
+  const entries = [initial];
+  const listeners = new Set<() => void>();
+  let index = 0;
+
+  return {
+    get location() {
+      return entries[index];
+    },
+    push(url) {
+      entries.splice(index + 1);
+      entries.push(url);
+      index = entries.length - 1;
+    },
+    replace(url) {
+      entries[index] = url;
+    },
+    go(delta) {
+      const next = Math.min(Math.max(index + delta, 0), entries.length - 1);
+      if (next !== index) {
+        index = next;
+        listeners.forEach((listener) => listener());
+      }
+    },
+    listen(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    createHref: (url) => url,
+    inMemory: true,
+  };
+}
+
+/**
+ * Resolve a child route path against its parent; absolute paths are kept
+ */
+function joinPaths(parent: string, child: string): string {
+  if (child.startsWith("/")) {
+    return child;
+  }
+  const joined = `${parent.replace(/\/+$/, "")}/${child}`.replace(/\/+$/, "");
+  return joined || "/";
+}
+
+function pathKeys(path: string): string[] {
+  return Array.from(path.matchAll(/:(\w+)/g), (match) => match[1]);
+}
+
+/**
+ * "/docs/" -> "/docs"; "/" -> ""
+ */
+function normalizeBase(base: string): string {
+  const trimmed = base.replace(/^\/+|\/+$/g, "");
+  return trimmed ? `/${trimmed}` : "";
 }
 
 /**
@@ -65,48 +235,91 @@ export class Router {
   private notFoundHandler: RouteComponent | null = null;
   private errorHandler: ((error: Error, ctx: RouteContext) => void) | null =
     null;
+  private views: RouteView[] = [];
+  private history: RouterHistory;
+  private base: string;
+  private unlisten: () => void;
 
   // Reactive state for current route
-  public routeState = state<RouteContext>({
-    path: window.location.pathname,
-    params: {},
-    query: this.parseQuery(window.location.search),
-    hash: window.location.hash,
-  });
-
-  constructor() {
-    // Listen to popstate for browser back/forward
-    window.addEventListener("popstate", () => {
-      this.handleNavigation(
-        window.location.pathname +
-          window.location.search +
-          window.location.hash,
-      );
+  public routeState: RouteContext;
+
+  constructor(options: RouterOptions = {}) {
+    const project = projectRouting();
+    const mode = options.mode || project.mode || "history";
+    this.base = normalizeBase(options.base ?? project.base ?? "/");
+    this.history =
+      options.history ||
+      (mode === "hash"
+        ? createHashHistory()
+        : mode === "memory"
+          ? createMemoryHistory()
+          : createBrowserHistory());
+    this.routeState = state<RouteContext>(this.parseLocation(this.location()));
+
+    // Browser back/forward and hash changes
+    this.unlisten = this.history.listen(() => {
+      this.handleNavigation(this.location());
     });
 
-    // Intercept link clicks
-    document.addEventListener("click", (e) => {
-      const target = (e.target as HTMLElement).closest("a");
-      if (target && target.href && target.origin === window.location.origin) {
-        const href = target.getAttribute("href");
+    if (!this.history.inMemory) {
+      document.addEventListener("click", this.handleClick);
+    }
+  }
+
+  /**
+   * Intercept link clicks into the app; fragment-only links and links
+   * outside the base are left to the browser
+   */
+  private handleClick = (e: MouseEvent): void => {
+    const target = (e.target as HTMLElement).closest("a");
+    if (target && target.href && target.origin === window.location.origin) {
+      const href = target.getAttribute("href");
+      if (this.history.usesFragment) {
+        // href() links keep the page path, only the fragment is the route
         if (
-          href &&
-          !href.startsWith("http") &&
+          target.pathname === window.location.pathname &&
+          target.hash.startsWith("#/") &&
           !target.hasAttribute("data-external")
         ) {
           e.preventDefault();
-          this.push(href);
+          this.push(target.hash.slice(1));
         }
+      } else if (
+        href &&
+        !href.startsWith("http") &&
+        !href.startsWith("#") &&
+        !target.hasAttribute("data-external") &&
+        this.isUnderBase(target.pathname)
+      ) {
+        e.preventDefault();
+        this.push(
+          this.stripBase(target.pathname) + target.search + target.hash,
+        );
       }
-    });
+    }
+  };
+
+  /**
+   * Stop listening for navigation and link clicks, and dispose the views
+   */
+  destroy(): void {
+    this.unlisten();
+    document.removeEventListener("click", this.handleClick);
+    this.views
+      .splice(0)
+      .reverse()
+      .forEach((view) => view.dispose());
+    this.container = null;
+    if (activeRouter === this) {
+      activeRouter = null;
+    }
   }
 
   /**
    * Add a route to the router
    */
   addRoute(config: RouteConfig): void {
-    const compiled = this.compileRoute(config);
-    this.routes.push(compiled);
+    this.routes.push(...this.flattenRoute(config, [], ""));
   }
 
   /**
@@ -142,19 +355,19 @@ export class Router {
    */
   mount(container: HTMLElement): void {
     this.container = container;
-    this.handleNavigation(
-      window.location.pathname + window.location.search + window.location.hash,
-    );
+    this.handleNavigation(this.location());
   }
 
   /**
    * Navigate to a new route (push state)
+   * Paths are relative to the router's base
    */
   async push(path: string, options: NavigationOptions = {}): Promise<void> {
+    const url = this.withBase(path);
     if (!options.replace) {
-      window.history.pushState(options.state || {}, "", path);
+      this.history.push(url, options.state || {});
     } else {
-      window.history.replaceState(options.state || {}, "", path);
+      this.history.replace(url, options.state || {});
     }
 
     await this.handleNavigation(path, options.scroll !== false);
@@ -171,21 +384,21 @@ export class Router {
    * Go back in history
    */
   back(): void {
-    window.history.back();
+    this.history.go(-1);
   }
 
   /**
    * Go forward in history
    */
   forward(): void {
-    window.history.forward();
+    this.history.go(1);
   }
 
   /**
    * Go to specific history entry
    */
   go(delta: number): void {
-    window.history.go(delta);
+    this.history.go(delta);
   }
 
   /**
@@ -195,12 +408,78 @@ export class Router {
     return this.currentRoute;
   }
 
+  /**
+   * href attribute for a route path, with the base and hash prefix added
+   */
+  href(path: string): string {
+    const url = this.history.createHref(this.withBase(path));
+    return this.history.usesFragment && this.base ? `${this.base}/${url}` : url;
+  }
+
+  /**
+   * Current location relative to the base
+   */
+  private location(): string {
+    return this.stripBase(this.history.location);
+  }
+
+  // Fragment locations never contain the base, it belongs to the page path
+  private withBase(path: string): string {
+    return path.startsWith("/") && !this.history.usesFragment
+      ? this.base + path
+      : path;
+  }
+
+  private isUnderBase(pathname: string): boolean {
+    return (
+      !this.base ||
+      pathname === this.base ||
+      pathname.startsWith(`${this.base}/`)
+    );
+  }
+
+  private stripBase(location: string): string {
+    if (
+      !this.base ||
+      this.history.usesFragment ||
+      !location.startsWith(this.base)
+    ) {
+      return location;
+    }
+    const rest = location.slice(this.base.length);
+    if (rest === "" || rest.startsWith("?") || rest.startsWith("#")) {
+      return `/${rest}`;
+    }
+    return rest.startsWith("/") ? rest : location;
+  }
+
+  /**
+   * Expand a route and its children into matchable branches
+   * Children come first, so a layout's own path renders its index child
+   * (path '') when there is one and the layout with an empty outlet otherwise
+   */
+  private flattenRoute(
+    config: RouteConfig,
+    parents: RouteConfig[],
+    parentPath: string,
+  ): CompiledRoute[] {
+    const path = joinPaths(parentPath, config.path);
+    const chain = [...parents, config];
+    const branches = (config.children || []).flatMap((child) =>
+      this.flattenRoute(child, chain, path),
+    );
+    if (config.component || config.lazy) {
+      branches.push(this.compileRoute(path, chain));
+    }
+    return branches;
+  }
+
   /**
    * Compile route pattern to regex
    */
-  private compileRoute(config: RouteConfig): CompiledRoute {
+  private compileRoute(path: string, chain: RouteConfig[]): CompiledRoute {
     const keys: string[] = [];
-    let pattern = config.path;
+    let pattern = path;
 
     // Handle dynamic segments: /user/:id -> /user/([^/]+)
     pattern = pattern.replace(/:(\w+)/g, (_, key) => {
@@ -220,7 +499,19 @@ export class Router {
     // Exact match
     const regex = new RegExp(`^${pattern}$`);
 
-    return { pattern: regex, keys, config };
+    let levelPath = "";
+    const levelKeys = chain.map((level) => {
+      levelPath = joinPaths(levelPath, level.path);
+      return pathKeys(levelPath);
+    });
+
+    return {
+      pattern: regex,
+      keys,
+      config: chain[chain.length - 1],
+      chain,
+      levelKeys,
+    };
   }
 
   /**
@@ -264,6 +555,21 @@ export class Router {
     return query;
   }
 
+  /**
+   * Split a location into a route context without params
+   */
+  private parseLocation(fullPath: string): RouteContext {
+    const [pathWithQuery, hash = ""] = fullPath.split("#");
+    const [path, search = ""] = pathWithQuery.split("?");
+
+    return {
+      path,
+      params: {},
+      query: this.parseQuery(search ? `?${search}` : ""),
+      hash: hash ? `#${hash}` : "",
+    };
+  }
+
   /**
    * Handle navigation
    */
@@ -272,17 +578,9 @@ export class Router {
     scroll: boolean = true,
   ): Promise<void> {
     try {
-      // Parse URL
-      const [pathWithQuery, hash = ""] = fullPath.split("#");
-      const [path, search = ""] = pathWithQuery.split("?");
-
       // Create route context
-      const ctx: RouteContext = {
-        path,
-        params: {},
-        query: this.parseQuery(search ? `?${search}` : ""),
-        hash: hash ? `#${hash}` : "",
-      };
+      const ctx = this.parseLocation(fullPath);
+      const path = ctx.path;
 
       // Match route
       const matched = this.matchRoute(path);
@@ -291,7 +589,9 @@ export class Router {
         // No route matched - show 404
         if (this.notFoundHandler) {
           ctx.params = {};
-          await this.renderRoute(ctx, this.notFoundHandler);
+          await this.renderRoute(ctx, [
+            { config: null, component: this.notFoundHandler, keys: [] },
+          ]);
         } else {
           console.error(`No route matched for path: ${path}`);
         }
@@ -305,9 +605,10 @@ export class Router {
       // Update reactive state
       Object.assign(this.routeState, ctx);
 
-      // Run guards
-      if (matched.route.config.guards) {
-        for (const guard of matched.route.config.guards) {
+      // Run guards, parent layouts first
+      const { chain, levelKeys } = matched.route;
+      for (const config of chain) {
+        for (const guard of config.guards || []) {
           const canActivate = await guard(ctx);
           if (!canActivate) {
             console.warn(`Route guard blocked navigation to ${path}`);
@@ -319,26 +620,30 @@ export class Router {
       // Run middleware
       const allMiddleware = [
         ...this.globalMiddleware,
-        ...(matched.route.config.middleware || []),
+        ...chain.flatMap((config) => config.middleware || []),
       ];
       await this.runMiddleware(ctx, allMiddleware);
 
-      // Load component
-      let component: RouteComponent;
-
-      if (matched.route.config.lazy) {
-        // Lazy load component
-        const module = await matched.route.config.lazy();
-        component = module.default;
-      } else if (matched.route.config.component) {
-        component = matched.route.config.component;
-      } else {
-        console.error(`No component defined for route: ${path}`);
-        return;
+      // Load components
+      const levels: RouteLevel[] = [];
+      for (const [index, config] of chain.entries()) {
+        let component: RouteComponent;
+
+        if (config.lazy) {
+          // Lazy load component
+          const module = await config.lazy();
+          component = module.default;
+        } else if (config.component) {
+          component = config.component;
+        } else {
+          console.error(`No component defined for route: ${config.path}`);
+          return;
+        }
+        levels.push({ config, component, keys: levelKeys[index] });
       }
 
       // Render component
-      await this.renderRoute(ctx, component);
+      await this.renderRoute(ctx, levels);
 
       // Scroll to top or hash
       if (scroll) {
@@ -379,31 +684,85 @@ export class Router {
   }
 
   /**
-   * Render route component
+   * Render route components, each layout into its parent's outlet
+   * Layouts shown for the previous route with the same params are kept,
+   * along with their DOM and state; only the levels below them re-render.
    */
   private async renderRoute(
     ctx: RouteContext,
-    component: RouteComponent,
+    levels: RouteLevel[],
   ): Promise<void> {
     if (!this.container) {
       console.error("Router not mounted to a container");
       return;
     }
 
-    // Clear container
-    this.container.innerHTML = "";
+    let kept = 0;
+    while (
+      kept < levels.length - 1 &&
+      kept < this.views.length &&
+      levels[kept].config &&
+      this.views[kept].config === levels[kept].config &&
+      levels[kept].keys.every(
+        (key) => this.views[kept].params[key] === ctx.params[key],
+      )
+    ) {
+      kept++;
+    }
+
+    // Dispose the replaced views' effects, innermost first, then clear
+    this.views
+      .splice(kept)
+      .reverse()
+      .forEach((view) => view.dispose());
+    let target = kept > 0 ? this.views[kept - 1].outlet : this.container;
+    target.innerHTML = "";
+
+    for (const [index, level] of levels.slice(kept).entries()) {
+      const outlet = document.createElement("div");
+      outlet.className = "router-outlet";
+      let disposeView: () => void = () => {};
+
+      // Render component inside its own reactive scope
+      const element = await createRoot((dispose) => {
+        disposeView = dispose;
+        const routeHead = level.config?.meta?.head;
+        if (routeHead) {
+          head(
+            typeof routeHead === "function" ? () => routeHead(ctx) : routeHead,
+          );
+        }
+        return level.component(ctx, outlet);
+      });
 
-    // Render component
-    const element = await component(ctx);
-    this.container.appendChild(element);
+      if (kept + index < levels.length - 1 && !element.contains(outlet)) {
+        console.warn(
+          `Layout for ${level.config?.path} does not render its outlet; child routes will not be shown`,
+        );
+      }
+      this.views.push({
+        config: level.config,
+        params: { ...ctx.params },
+        outlet,
+        dispose: disposeView,
+      });
+      target.appendChild(element);
+      delegateHandlers(element);
+      target = outlet;
+    }
   }
 }
 
 /**
  * Create a new router instance
+ * Mode and base default to routing.mode and routing.base in rynex.config.js
  */
-export function createRouter(routes?: RouteConfig[]): Router {
-  const router = new Router();
+export function createRouter(
+  routes?: RouteConfig[],
+  options?: RouterOptions,
+): Router {
+  const router = new Router(options);
+  activeRouter = router;
   if (routes) {
     router.addRoutes(routes);
   }
@@ -419,7 +778,7 @@ export function createLink(
   options: { class?: string; style?: Partial<CSSStyleDeclaration> } = {},
 ): HTMLAnchorElement {
   const link = document.createElement("a");
-  link.href = href;
+  link.href = routeHref(href);
   link.textContent = text;
 
   if (options.class) {
@@ -433,6 +792,20 @@ export function createLink(
   return link;
 }
 
+/**
+ * href for a route path under the active router's base and mode
+ */
+export function routeHref(path: string): string {
+  return activeRouter ? activeRouter.href(path) : path;
+}
+
+/**
+ * Path of the current route, without the base
+ */
+export function currentRoutePath(): string {
+  return activeRouter ? activeRouter.routeState.path : window.location.pathname;
+}
+
 /**
  * Route params hook
  */
@@ -0,0 +1,128 @@
+/**
+ * Rynex Server Rendering
+ * renderToString() runs components on Node against a lightweight DOM shim
+ * and returns their markup; hydrate() picks it up again in the browser
+ */
+
+import { createRoot, flushSync } from "./state.js";
+import { installDOMShim, uninstallDOMShim } from "./dom-shim.js";
+import { escapeText } from "./escape.js";
+import { collectHead } from "./head.js";
+import { runWithContext } from "./helpers/context.js";
+import { debugLog } from "./debug.js";
+import type { RouteContext, RouteParams, RouteQuery } from "./router.js";
+
+export { installDOMShim, uninstallDOMShim } from "./dom-shim.js";
+
+/**
+ * Serialize a rendered node to HTML
+ */
+function toHTML(node: Node): string {
+  if (node instanceof Element) {
+    return node.outerHTML;
+  }
+  if (node.nodeType === Node.COMMENT_NODE) {
+    return `<!--${node.nodeValue}-->`;
+  }
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeText(node.nodeValue || "");
+  }
+  return Array.from(node.childNodes).map(toHTML).join("");
+}
+
+/**
+ * Build the RouteContext for a URL, as the router would on navigation
+ * Usage: renderToString(UserPage, routeContext('/users/42?tab=posts', { id: '42' }))
+ */
+export function routeContext(
+  url: string,
+  params: RouteParams = {},
+  data?: any,
+): RouteContext {
+  const parsed = new URL(url, "http://localhost");
+  const query: RouteQuery = {};
+  parsed.searchParams.forEach((value, key) => {
+    const existing = query[key];
+    query[key] =
+      existing === undefined
+        ? value
+        : Array.isArray(existing)
+          ? [...existing, value]
+          : [existing, value];
+  });
+
+  return {
+    path: parsed.pathname,
+    params,
+    query,
+    // With the leading #, as the client router has it
+    hash: parsed.hash,
+    data,
+  };
+}
+
+// Renders in progress; the shim stays installed while any of them runs
+let activeRenders = 0;
+let shimInstalled = false;
+
+export interface RenderedPage {
+  html: string;
+  // head() tags set while rendering, serialized like renderHead()
+  head: string;
+}
+
+/**
+ * Render a component to HTML along with the head() tags it set
+ * Works on Node and in the browser. On Node the DOM shim provides document
+ * and window only while renders are in progress. Async components, such as lazy route components, are awaited.
+ * Each render starts without context values and collects its own head, so
+ * concurrent renders don't leak into each other; its reactive scope is
+ * disposed once the markup is produced. Async components are awaited, but
+ * only the synchronous part of a render is scoped: call head() and
+ * useContext() before the first await.
+ * Usage: const { html, head } = await renderToStringWithHead(App, { user })
+ */
+export async function renderToStringWithHead(
+  component: Function,
+  props: any = {},
+): Promise<RenderedPage> {
+  if (activeRenders++ === 0) {
+    shimInstalled = installDOMShim();
+  }
+
+  let dispose: () => void = () => {};
+  try {
+    const { result, renderHead } = collectHead(() =>
+      runWithContext(new Map(), () =>
+        createRoot((disposeRoot) => {
+          dispose = disposeRoot;
+          return component(props);
+        }),
+      ),
+    );
+    const node = (await result) as Node | null | undefined;
+    // Let state written during render settle before serializing
+    flushSync();
+
+    const html = node ? toHTML(node) : "";
+    debugLog("SSR", `Rendered ${html.length} characters`);
+    return { html, head: renderHead() };
+  } finally {
+    dispose();
+    if (--activeRenders === 0 && shimInstalled) {
+      uninstallDOMShim();
+      shimInstalled = false;
+    }
+  }
+}
+
+/**
+ * Render a component to an HTML string
+ * Usage: const html = await renderToString(App, { user })
+ */
+export async function renderToString(
+  component: Function,
+  props: any = {},
+): Promise<string> {
+  return (await renderToStringWithHead(component, props)).html;
+}
@@ -7,45 +7,717 @@ import { debugLog, debugWarn } from "./debug.js";
 
 type Listener = () => void;
 type EffectFunction = () => void;
+// Property names for objects, arbitrary keys for Map/Set entries
+type DependencyKey = unknown;
+
+/**
+ * Reactive ownership scope
+ * Effects, computeds and roots form a tree; disposing a node disposes its
+ * children and runs its cleanups
+ */
+export interface Owner {
+  parent: Owner | null;
+  children: Set<Owner>;
+  cleanups: Array<() => void>;
+  disposed: boolean;
+  onDispose?: () => void;
+}
 
 // Track current effect being executed for dependency tracking
 let currentEffect: EffectFunction | null = null;
-const effectDependencies = new WeakMap<EffectFunction, Set<any>>();
+let currentOwner: Owner | null = null;
+
+// Reverse index: every dependency set an effect was added to
+const effectDependencies = new WeakMap<
+  EffectFunction,
+  Set<Set<EffectFunction>>
+>();
+
+// Per-target dependency maps, so nested objects track their own keys
+const targetDependencies = new WeakMap<
+  object,
+  Map<DependencyKey, Set<EffectFunction>>
+>();
+
+// Raw target -> reactive proxy cache (one proxy per object)
+const proxyCache = new WeakMap<object, any>();
+
+// subscribe() listeners of each reactive object
+const ownListeners = new WeakMap<object, Set<Listener>>();
+
+// Signal -> the node it tracks and notifies through
+const signalNodes = new WeakMap<Signal<any>, object>();
+
+// Child -> parents currently holding it, and the keys it sits under
+// Kept up to date on every write, so ancestors' listeners and patch paths
+// follow moves instead of remembering where an object used to be
+const parentLinks = new WeakMap<object, Map<object, Set<DependencyKey>>>();
+
+// Computeds are marked dirty synchronously instead of being scheduled
+const computedNodes = new WeakMap<EffectFunction, () => void>();
+
+// Objects opted out of reactivity via markRaw()
+const rawObjects = new WeakSet<object>();
+
+const RAW = Symbol("rynex.raw");
+const ITERATE_KEY = Symbol("rynex.iterate");
+// Map value changes (membership unchanged) only concern value iteration
+const MAP_VALUES_KEY = Symbol("rynex.mapValues");
+
+// Array mutators read and write length internally; run them untracked so an
+// effect calling push() does not subscribe to (and re-trigger on) length
+const arrayMutators: Record<string, Function> = {};
+[
+  "push",
+  "pop",
+  "shift",
+  "unshift",
+  "splice",
+  "sort",
+  "reverse",
+  "fill",
+  "copyWithin",
+].forEach((name) => {
+  const method = (Array.prototype as any)[name];
+  arrayMutators[name] = function (this: any[], ...args: any[]) {
+    const oldEffect = currentEffect;
+    currentEffect = null;
+    try {
+      return inTransaction(() => method.apply(this, args));
+    } finally {
+      currentEffect = oldEffect;
+    }
+  };
+});
 
 /**
- * Create a reactive state object using Proxy
- * Any property access is tracked, any property change triggers updates
+ * Whether a value can be wrapped in a reactive proxy
+ * Only plain objects, arrays, Maps and Sets are made reactive
  */
-export function state<T extends object>(initialState: T): T {
-  const listeners = new Set<Listener>();
-  const dependencies = new Map<string | symbol, Set<EffectFunction>>();
+function isProxyable(value: unknown): value is object {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (rawObjects.has(value) || Object.isFrozen(value)) {
+    return false;
+  }
+  if (Array.isArray(value) || value instanceof Map || value instanceof Set) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Effect scheduler
+ * Every write queues its dirty effects and listeners here. The queue is a Set,
+ * so a job dirtied by several writes runs once per flush, in creation order.
+ */
+type Job = EffectFunction | Listener;
+
+const MAX_FLUSH_PASSES = 100;
+const pendingJobs = new Set<Job>();
+const jobIds = new WeakMap<Job, number>();
+let jobCounter = 0;
+let batchDepth = 0;
+let flushScheduled = false;
+let isFlushing = false;
+
+function getJobId(job: Job): number {
+  let id = jobIds.get(job);
+  if (id === undefined) {
+    id = ++jobCounter;
+    jobIds.set(job, id);
+  }
+  return id;
+}
+
+function scheduleJob(job: Job): void {
+  getJobId(job);
+  pendingJobs.add(job);
+
+  if (batchDepth > 0 || isFlushing || flushScheduled) {
+    return;
+  }
+
+  flushScheduled = true;
+  queueMicrotask(flushJobs);
+}
+
+function flushJobs(): void {
+  flushScheduled = false;
+  if (isFlushing) {
+    return;
+  }
+
+  isFlushing = true;
+  let passes = 0;
+  try {
+    // Jobs dirtied while flushing are picked up by the next pass
+    while (pendingJobs.size > 0) {
+      if (++passes > MAX_FLUSH_PASSES) {
+        console.error(
+          "Rynex: effects kept re-triggering each other, aborting flush (possible infinite update loop)",
+        );
+        pendingJobs.clear();
+        break;
+      }
+
+      const jobs = Array.from(pendingJobs).sort(
+        (a, b) => getJobId(a) - getJobId(b),
+      );
+      pendingJobs.clear();
+      debugLog("Scheduler", `Flushing ${jobs.length} job(s)`);
+
+      jobs.forEach((job) => {
+        try {
+          job();
+        } catch (error) {
+          console.error("Error in effect:", error);
+        }
+      });
+    }
+  } finally {
+    isFlushing = false;
+  }
+}
+
+/**
+ * Record that the running effect depends on target[key]
+ */
+function track(target: object, key: DependencyKey): void {
+  if (!currentEffect) {
+    return;
+  }
+
+  let dependencies = targetDependencies.get(target);
+  if (!dependencies) {
+    dependencies = new Map();
+    targetDependencies.set(target, dependencies);
+  }
+  if (!dependencies.has(key)) {
+    dependencies.set(key, new Set());
+  }
+  const effects = dependencies.get(key)!;
+  effects.add(currentEffect);
+
+  // Track reverse dependency
+  if (!effectDependencies.has(currentEffect)) {
+    effectDependencies.set(currentEffect, new Set());
+  }
+  effectDependencies.get(currentEffect)!.add(effects);
+
+  debugLog("State", `Tracking dependency: ${String(key)}`);
+}
+
+/**
+ * Notify effects depending on the given keys of target, plus listeners
+ */
+function trigger(target: object, keys: DependencyKey[]): void {
+  const dependencies = targetDependencies.get(target);
+  if (dependencies) {
+    const effects = new Set<EffectFunction>();
+    keys.forEach((key) => {
+      dependencies.get(key)?.forEach((effect) => effects.add(effect));
+    });
+
+    // Mark dependent computeds dirty right away (so readers pull fresh values),
+    // queue property-specific effects
+    effects.forEach((effect) => {
+      const markDirty = computedNodes.get(effect);
+      if (markDirty) {
+        markDirty();
+      } else {
+        scheduleJob(effect);
+      }
+    });
+  }
+
+  // Queue global listeners of this object and of every state containing it
+  forEachAncestor(target, (ancestor) => {
+    ownListeners.get(ancestor)?.forEach(scheduleJob);
+  });
+}
+
+function linkParent(child: object, parent: object, key: DependencyKey): void {
+  let parents = parentLinks.get(child);
+  if (!parents) {
+    parents = new Map();
+    parentLinks.set(child, parents);
+  }
+  let keys = parents.get(parent);
+  if (!keys) {
+    keys = new Set();
+    parents.set(parent, keys);
+  }
+  keys.add(key);
+}
+
+function unlinkParent(
+  child: unknown,
+  parent: object,
+  key: DependencyKey,
+): void {
+  const raw = toRaw(child);
+  if (raw === null || typeof raw !== "object") {
+    return;
+  }
+  const parents = parentLinks.get(raw);
+  const keys = parents?.get(parent);
+  if (keys?.delete(key) && keys.size === 0) {
+    parents!.delete(parent);
+  }
+}
+
+/**
+ * Visit target and every object currently containing it, once each
+ */
+function forEachAncestor(target: object, fn: (ancestor: object) => void) {
+  const seen = new Set<object>();
+  const visit = (node: object) => {
+    if (seen.has(node)) {
+      return;
+    }
+    seen.add(node);
+    fn(node);
+    parentLinks.get(node)?.forEach((_keys, parent) => visit(parent));
+  };
+  visit(target);
+}
+
+/**
+ * A single recorded write on a reactive state tree
+ * path is relative to the state passed to onPatch(); Map keys and Set values
+ * appear in it as-is. batchId is shared by patches of one transaction (a
+ * batch() call or a single array or collection mutation)
+ */
+export interface StatePatch {
+  path: DependencyKey[];
+  oldValue: any;
+  newValue: any;
+  deleted: boolean;
+  hadKey: boolean;
+  batchId: number;
+}
+
+interface RawPatch {
+  target: object;
+  key: DependencyKey;
+  oldValue: any;
+  newValue: any;
+  deleted: boolean;
+  hadKey: boolean;
+}
+
+const patchListeners = new Set<(patch: RawPatch) => void>();
+let batchCounter = 0;
+let currentBatchId = 0;
+
+function emitPatch(
+  target: object,
+  key: DependencyKey,
+  oldValue: any,
+  newValue: any,
+  deleted: boolean,
+  hadKey: boolean = true,
+): void {
+  const patch: RawPatch = { target, key, oldValue, newValue, deleted, hadKey };
+  patchListeners.forEach((listener) => {
+    try {
+      listener(patch);
+    } catch (error) {
+      console.error("Error in patch listener:", error);
+    }
+  });
+}
+
+/**
+ * Give every patch emitted by fn the same transaction id
+ * batch() opens one for its whole body; a single array mutator or write
+ * emitting several patches opens its own
+ */
+function inTransaction<T>(fn: () => T): T {
+  if (currentBatchId !== 0) {
+    return fn();
+  }
+  currentBatchId = ++batchCounter;
+  try {
+    return fn();
+  } finally {
+    currentBatchId = 0;
+  }
+}
+
+/**
+ * Find the key path from root to target by following parent links upward
+ */
+function findPath(
+  root: object,
+  target: object,
+  seen: Set<object> = new Set(),
+): DependencyKey[] | null {
+  if (root === target) {
+    return [];
+  }
+  seen.add(target);
+
+  const parents = parentLinks.get(target);
+  if (!parents) {
+    return null;
+  }
+  for (const [parent, keys] of parents) {
+    if (seen.has(parent)) {
+      continue;
+    }
+    const path = findPath(root, parent, seen);
+    if (path) {
+      return [...path, keys.values().next().value];
+    }
+  }
+  return null;
+}
+
+/**
+ * Step from a reactive parent to the child stored under key
+ * Map entries are read with get(), Set members are matched by identity
+ */
+function childAt(parent: any, key: DependencyKey): any {
+  if (parent instanceof Map) {
+    return parent.get(key);
+  }
+  if (parent instanceof Set) {
+    for (const value of parent) {
+      if (toRaw(value) === key) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  return parent?.[key as PropertyKey];
+}
+
+/**
+ * Write (or delete) the value at a patch path inside a reactive state
+ * Used to replay patches for undo/redo and cross-tab sync
+ */
+export function writePath(
+  root: object,
+  path: DependencyKey[],
+  value: any,
+  deleted: boolean,
+): void {
+  let parent: any = root;
+  for (let i = 0; i < path.length - 1; i++) {
+    parent = childAt(parent, path[i]);
+  }
+  if (parent === null || typeof parent !== "object") {
+    return;
+  }
+
+  const key = path[path.length - 1];
+  if (parent instanceof Map) {
+    if (deleted) {
+      parent.delete(key);
+    } else {
+      parent.set(key, value);
+    }
+  } else if (parent instanceof Set) {
+    if (deleted) {
+      parent.delete(key);
+    } else {
+      parent.add(value);
+    }
+  } else if (deleted) {
+    delete parent[key as PropertyKey];
+  } else {
+    parent[key as PropertyKey] = value;
+  }
+}
+
+/**
+ * Observe every write made anywhere inside a reactive state tree
+ * Used by history() and cross-tab sync; returns an unsubscribe function
+ */
+export function onPatch(
+  stateObj: object,
+  listener: (patch: StatePatch) => void,
+): () => void {
+  const root = toRaw(stateObj);
+  if (!ownListeners.has(root)) {
+    debugWarn("State", "Object is not a reactive state");
+    return () => {};
+  }
+
+  const rawListener = (patch: RawPatch) => {
+    // Only writes on objects reachable from this state
+    const path = findPath(root, patch.target);
+    if (!path) {
+      return;
+    }
+    listener({
+      path: [...path, patch.key],
+      oldValue: patch.oldValue,
+      newValue: patch.newValue,
+      deleted: patch.deleted,
+      hadKey: patch.hadKey,
+      batchId: currentBatchId,
+    });
+  };
+
+  patchListeners.add(rawListener);
+  return () => {
+    patchListeners.delete(rawListener);
+  };
+}
+
+/**
+ * Wrap a value read out of a reactive collection
+ */
+function wrapChild(target: object, value: any, key?: DependencyKey): any {
+  return isProxyable(value) ? reactive(value, target, key) : value;
+}
+
+/**
+ * Map/Set methods keep internal slots, so they run on the raw collection
+ * Reads track per key (get/has) or iteration (size, forEach, iterators);
+ * writes trigger only the affected key and iteration
+ */
+const collectionMethods: Record<string | symbol, Function> = {
+  get(this: Map<any, any>, key: any) {
+    const target = toRaw(this);
+    key = toRaw(key);
+    track(target, key);
+    return wrapChild(target, target.get(key), key);
+  },
+
+  has(this: Map<any, any> | Set<any>, key: any) {
+    const target = toRaw(this);
+    key = toRaw(key);
+    track(target, key);
+    return target.has(key);
+  },
+
+  forEach(
+    this: Map<any, any> | Set<any>,
+    callback: (value: any, key: any, collection: any) => void,
+    thisArg?: any,
+  ) {
+    const target = toRaw(this);
+    track(target, ITERATE_KEY);
+    track(target, MAP_VALUES_KEY);
+    target.forEach((value: any, key: any) => {
+      callback.call(
+        thisArg,
+        wrapChild(target, value, key),
+        wrapChild(target, key),
+        this,
+      );
+    });
+  },
+
+  set(this: Map<any, any>, key: any, value: any) {
+    const target = toRaw(this);
+    key = toRaw(key);
+    const hadKey = target.has(key);
+    const oldValue = target.get(key);
+    value = toRaw(value);
+    target.set(key, value);
+    if (hadKey) {
+      unlinkParent(oldValue, target, key);
+    }
+
+    if (!hadKey) {
+      debugLog("State", `Map entry ${String(key)} added`);
+      if (patchListeners.size > 0) {
+        emitPatch(target, key, undefined, value, false, false);
+      }
+      trigger(target, [key, ITERATE_KEY, MAP_VALUES_KEY]);
+    } else if (!Object.is(oldValue, value)) {
+      debugLog("State", `Map entry ${String(key)} changed`);
+      if (patchListeners.size > 0) {
+        emitPatch(target, key, oldValue, value, false);
+      }
+      trigger(target, [key, MAP_VALUES_KEY]);
+    }
+    return this;
+  },
+
+  add(this: Set<any>, value: any) {
+    const target = toRaw(this);
+    value = toRaw(value);
+    if (!target.has(value)) {
+      target.add(value);
+      debugLog("State", `Set value added`);
+      if (patchListeners.size > 0) {
+        emitPatch(target, value, undefined, value, false, false);
+      }
+      trigger(target, [value, ITERATE_KEY]);
+    }
+    return this;
+  },
+
+  delete(this: Map<any, any> | Set<any>, key: any) {
+    const target = toRaw(this);
+    key = toRaw(key);
+    const oldValue = target instanceof Map ? target.get(key) : key;
+    const result = target.delete(key);
+    if (result) {
+      unlinkParent(oldValue, target, key);
+      debugLog("State", `Collection entry ${String(key)} deleted`);
+      if (patchListeners.size > 0) {
+        emitPatch(target, key, oldValue, undefined, true);
+      }
+      trigger(target, [key, ITERATE_KEY, MAP_VALUES_KEY]);
+    }
+    return result;
+  },
+
+  clear(this: Map<any, any> | Set<any>) {
+    const target = toRaw(this);
+    if (target.size === 0) {
+      return;
+    }
+    const removed = Array.from(target.entries());
+    target.clear();
+    removed.forEach(([key, value]) => unlinkParent(value, target, key));
+    if (patchListeners.size > 0) {
+      inTransaction(() => {
+        removed.forEach(([key, value]) => {
+          emitPatch(target, key, value, undefined, true);
+        });
+      });
+    }
+    const keys: DependencyKey[] = removed.map(([key]) => key);
+    keys.push(ITERATE_KEY, MAP_VALUES_KEY);
+    trigger(target, keys);
+  },
+};
+
+["keys", "values", "entries", Symbol.iterator].forEach((method) => {
+  collectionMethods[method] = function (this: Map<any, any> | Set<any>) {
+    const target = toRaw(this);
+    track(target, ITERATE_KEY);
+    if (method !== "keys") {
+      track(target, MAP_VALUES_KEY);
+    }
+    const inner = (target as any)[method]();
+    const isPair =
+      method === "entries" ||
+      (method === Symbol.iterator && target instanceof Map);
+
+    // Wrap yielded values so nested objects stay reactive
+    return {
+      next() {
+        const { value, done } = inner.next();
+        if (done) {
+          return { value, done };
+        }
+        // Set values are their own keys; Map keys are not linked as children
+        return {
+          value: isPair
+            ? [
+                wrapChild(target, value[0]),
+                wrapChild(target, value[1], value[0]),
+              ]
+            : method === "keys" && target instanceof Map
+              ? wrapChild(target, value)
+              : wrapChild(target, value, value),
+          done,
+        };
+      },
+      [Symbol.iterator]() {
+        return this;
+      },
+    };
+  };
+});
+
+const collectionHandler: ProxyHandler<Map<any, any> | Set<any>> = {
+  get(target, prop) {
+    if (prop === RAW) {
+      return target;
+    }
+    if (prop === "size") {
+      track(target, ITERATE_KEY);
+      return target.size;
+    }
+    if (
+      Object.prototype.hasOwnProperty.call(collectionMethods, prop) &&
+      prop in target
+    ) {
+      return collectionMethods[prop];
+    }
+    return Reflect.get(target, prop, target);
+  },
+};
+
+/**
+ * Get or create the reactive proxy for a raw object
+ * Reading a child through its parent links the two, so root subscribers see
+ * nested writes
+ */
+function reactive<T extends object>(
+  target: T,
+  parent?: object,
+  key?: DependencyKey,
+): T {
+  if (!ownListeners.has(target)) {
+    ownListeners.set(target, new Set());
+  }
+  if (parent) {
+    linkParent(target, parent, key);
+  }
+
+  const cached = proxyCache.get(target);
+  if (cached) {
+    return cached;
+  }
+
+  if (target instanceof Map || target instanceof Set) {
+    const proxy = new Proxy(target, collectionHandler);
+    proxyCache.set(target, proxy);
+    return proxy as T;
+  }
+
+  const isArray = Array.isArray(target);
 
   const handler: ProxyHandler<T> = {
     get(target, prop, receiver) {
+      if (prop === RAW) {
+        return target;
+      }
+
+      if (
+        isArray &&
+        typeof prop === "string" &&
+        Object.prototype.hasOwnProperty.call(arrayMutators, prop)
+      ) {
+        return arrayMutators[prop];
+      }
+
       // Track dependency if we're inside an effect
-      if (currentEffect) {
-        if (!dependencies.has(prop)) {
-          dependencies.set(prop, new Set());
-        }
-        dependencies.get(prop)!.add(currentEffect);
+      track(target, prop);
 
-        // Track reverse dependency
-        if (!effectDependencies.has(currentEffect)) {
-          effectDependencies.set(currentEffect, new Set());
-        }
-        effectDependencies.get(currentEffect)!.add(target);
+      const value = Reflect.get(target, prop, receiver);
 
-        debugLog("State", `Tracking dependency: ${String(prop)}`);
+      // Lazily wrap nested plain objects and arrays
+      if (isProxyable(value)) {
+        return reactive(value, target, prop);
       }
 
-      return Reflect.get(target, prop, receiver);
+      return value;
     },
 
     set(target, prop, value, receiver) {
       const oldValue = Reflect.get(target, prop, receiver);
+      const hadKey = Object.prototype.hasOwnProperty.call(target, prop);
+      const oldLength = isArray ? (target as any[]).length : 0;
+      const truncated =
+        isArray && prop === "length" ? (target as any[]).slice() : null;
+      value = toRaw(value);
 
       // Only update if value changed
-      if (Object.is(oldValue, value)) {
+      if (hadKey && Object.is(toRaw(oldValue), value)) {
         return true;
       }
 
@@ -57,113 +729,477 @@ export function state<T extends object>(initialState: T): T {
           `Property ${String(prop)} changed from ${oldValue} to ${value}`,
         );
 
-        // Notify property-specific effects
-        const propEffects = dependencies.get(prop);
-        if (propEffects) {
-          propEffects.forEach((effect) => {
-            queueMicrotask(() => {
-              try {
-                effect();
-              } catch (error) {
-                console.error("Error in effect:", error);
-              }
-            });
-          });
+        // Move parent links along with the values
+        if (hadKey) {
+          unlinkParent(oldValue, target, prop);
+        }
+        truncated?.slice(Number(value)).forEach((item, offset) => {
+          unlinkParent(item, target, String(Number(value) + offset));
+        });
+        if (isProxyable(value)) {
+          linkParent(value, target, prop);
+        }
+
+        const keys: DependencyKey[] = [prop];
+        if (!hadKey) {
+          keys.push(ITERATE_KEY);
+        }
+        if (isArray) {
+          const newLength = (target as any[]).length;
+          if (prop === "length") {
+            // Shrinking drops every index past the new length
+            for (let i = newLength; i < oldLength; i++) {
+              keys.push(String(i));
+            }
+            keys.push(ITERATE_KEY);
+          } else if (newLength !== oldLength) {
+            keys.push("length");
+          }
         }
 
-        // Notify global listeners
-        listeners.forEach((listener) => {
-          queueMicrotask(() => {
-            try {
-              listener();
-            } catch (error) {
-              console.error("Error in listener:", error);
+        if (patchListeners.size > 0) {
+          inTransaction(() => {
+            if (truncated) {
+              // Record dropped items so the truncation can be undone
+              for (let i = Number(value); i < truncated.length; i++) {
+                emitPatch(target, String(i), truncated[i], undefined, true);
+              }
+            }
+            emitPatch(target, prop, oldValue, value, false, hadKey);
+            if (isArray && prop !== "length") {
+              const newLength = (target as any[]).length;
+              if (newLength !== oldLength) {
+                emitPatch(target, "length", oldLength, newLength, false);
+              }
             }
           });
-        });
+        }
+
+        trigger(target, keys);
       }
 
       return result;
     },
-  };
 
-  const proxy = new Proxy(initialState, handler);
+    has(target, prop) {
+      track(target, prop);
+      return Reflect.has(target, prop);
+    },
+
+    ownKeys(target) {
+      track(target, isArray ? "length" : ITERATE_KEY);
+      return Reflect.ownKeys(target);
+    },
 
-  // Store listeners reference for manual subscription
-  (proxy as any).__listeners = listeners;
+    deleteProperty(target, prop) {
+      const hadKey = Object.prototype.hasOwnProperty.call(target, prop);
+      const oldValue = (target as any)[prop];
+      const result = Reflect.deleteProperty(target, prop);
 
+      if (result && hadKey) {
+        debugLog("State", `Property ${String(prop)} deleted`);
+        unlinkParent(oldValue, target, prop);
+        if (patchListeners.size > 0) {
+          emitPatch(target, prop, oldValue, undefined, true);
+        }
+        trigger(target, [prop, ITERATE_KEY]);
+      }
+
+      return result;
+    },
+  };
+
+  const proxy = new Proxy(target, handler);
+  proxyCache.set(target, proxy);
   return proxy;
 }
 
+/**
+ * Create a reactive state object using Proxy
+ * Any property access is tracked, any property change triggers updates
+ * Nested plain objects and arrays are made reactive lazily on access
+ */
+export function state<T extends object>(initialState: T): T {
+  return reactive(toRaw(initialState));
+}
+
+/**
+ * Return the underlying object of a reactive proxy
+ * Reads and writes on the result are not tracked
+ */
+export function toRaw<T>(observed: T): T {
+  const raw = observed && (observed as any)[RAW];
+  return raw ? toRaw(raw) : observed;
+}
+
+/**
+ * Create a reactive Map
+ * get/has track the key, size and iteration track membership; set/delete
+ * notify only effects depending on that key or on iteration
+ */
+export function reactiveMap<K, V>(
+  entries?: Iterable<readonly [K, V]> | null,
+): Map<K, V> {
+  return reactive(new Map(entries));
+}
+
+/**
+ * Create a reactive Set
+ * has() tracks the value, size and iteration track membership
+ */
+export function reactiveSet<T>(values?: Iterable<T> | null): Set<T> {
+  return reactive(new Set(values));
+}
+
+/**
+ * Mark an object so it is never wrapped in a reactive proxy
+ * Useful for class instances, large immutable data or third-party objects
+ */
+export function markRaw<T extends object>(value: T): T {
+  rawObjects.add(value);
+  return value;
+}
+
+/**
+ * Remove an effect from every dependency set it was tracked in
+ */
+function cleanupDependencies(effect: EffectFunction): void {
+  const deps = effectDependencies.get(effect);
+  if (deps) {
+    deps.forEach((effects) => effects.delete(effect));
+    deps.clear();
+  }
+}
+
+function createOwner(parent: Owner | null): Owner {
+  const owner: Owner = {
+    parent,
+    children: new Set(),
+    cleanups: [],
+    disposed: false,
+  };
+  if (parent) {
+    parent.children.add(owner);
+  }
+  return owner;
+}
+
+/**
+ * Dispose an owner's children and run its cleanups, keeping the owner alive
+ * Called before an effect re-runs so nested scopes never outlive one run
+ */
+function resetOwner(owner: Owner): void {
+  owner.children.forEach(disposeOwner);
+  owner.children.clear();
+
+  const cleanups = owner.cleanups.splice(0);
+  for (let i = cleanups.length - 1; i >= 0; i--) {
+    try {
+      cleanups[i]();
+    } catch (error) {
+      console.error("Error in cleanup:", error);
+    }
+  }
+}
+
+function disposeOwner(owner: Owner): void {
+  if (owner.disposed) {
+    return;
+  }
+  owner.disposed = true;
+  resetOwner(owner);
+  owner.onDispose?.();
+  owner.parent?.children.delete(owner);
+}
+
+/**
+ * Run fn as the given effect inside the given owner, re-tracking dependencies
+ */
+function runComputation<T>(
+  owner: Owner,
+  effect: EffectFunction,
+  fn: () => T,
+): T {
+  resetOwner(owner);
+  cleanupDependencies(effect);
+
+  const oldEffect = currentEffect;
+  const oldOwner = currentOwner;
+  currentEffect = effect;
+  currentOwner = owner;
+  try {
+    return fn();
+  } finally {
+    currentEffect = oldEffect;
+    currentOwner = oldOwner;
+  }
+}
+
+/**
+ * Standalone reactive value
+ * Call it (or read .value) to get the value with tracking, peek() to read
+ * without tracking
+ */
+export interface Signal<T> {
+  (): T;
+  value: T;
+  peek(): T;
+  set(value: T): void;
+  update(fn: (value: T) => T): void;
+}
+
+/**
+ * Create a signal: a single reactive value that needs no object wrapper
+ * Shares the dependency tracker with state(), computed() and effect(), and
+ * being callable, can be passed wherever a `() => T` getter is accepted
+ */
+export function signal<T>(initialValue: T): Signal<T> {
+  let current = initialValue;
+
+  // Tracking target for readers, with its own listener set for subscribe()
+  const node = {};
+  const listeners = new Set<Listener>();
+  ownListeners.set(node, listeners);
+
+  const read = (() => {
+    track(node, "value");
+    return current;
+  }) as Signal<T>;
+
+  const write = (value: T) => {
+    if (Object.is(current, value)) {
+      return;
+    }
+    debugLog("Signal", `Value changed from ${current} to ${value}`);
+    current = value;
+    trigger(node, ["value"]);
+  };
+
+  Object.defineProperty(read, "value", { get: read, set: write });
+  read.peek = () => current;
+  read.set = write;
+  read.update = (fn) => write(fn(current));
+  signalNodes.set(read, node);
+
+  return read;
+}
+
+/**
+ * Read-only computed value
+ */
+export interface Computed<T> {
+  readonly value: T;
+}
+
+/**
+ * Computed value with a setter, for derived form fields and the like
+ */
+export interface WritableComputed<T> {
+  value: T;
+}
+
+export interface WritableComputedOptions<T> {
+  get: () => T;
+  set: (value: T) => void;
+}
+
 /**
  * Create a computed value that automatically updates when dependencies change
+ * The value is recomputed lazily on read after a dependency changed, and
+ * reading .value inside an effect or another computed tracks it. Since
+ * dirtiness propagates before any effect runs, diamond-shaped graphs never
+ * expose intermediate values.
  */
-export function computed<T>(computeFn: () => T): { value: T } {
+export function computed<T>(getter: () => T): Computed<T>;
+export function computed<T>(
+  options: WritableComputedOptions<T>,
+): WritableComputed<T>;
+export function computed<T>(
+  getterOrOptions: (() => T) | WritableComputedOptions<T>,
+): Computed<T> | WritableComputed<T> {
+  const getter =
+    typeof getterOrOptions === "function"
+      ? getterOrOptions
+      : getterOrOptions.get;
+  const setter =
+    typeof getterOrOptions === "function" ? undefined : getterOrOptions.set;
+
   let cachedValue: T;
-  let isInitialized = false;
+  let dirty = true;
+  let computing = false;
 
-  const effectFn: EffectFunction = () => {
-    const oldEffect = currentEffect;
-    currentEffect = effectFn;
+  // Tracking target for readers of .value
+  const node = {};
+  const owner = createOwner(currentOwner);
+
+  const computation: EffectFunction = () => {
+    if (computing) {
+      throw new Error("Circular dependency detected in computed()");
+    }
+    computing = true;
     try {
-      cachedValue = computeFn();
-      isInitialized = true;
+      cachedValue = runComputation(owner, computation, getter);
+      dirty = false;
       debugLog("Computed", "Recomputed value:", cachedValue);
     } finally {
-      currentEffect = oldEffect;
+      computing = false;
     }
   };
 
-  // Run once to establish dependencies and get initial value
-  effectFn();
+  computedNodes.set(computation, () => {
+    if (dirty) {
+      return;
+    }
+    dirty = true;
+    trigger(node, ["value"]);
+  });
+  owner.onDispose = () => cleanupDependencies(computation);
 
   return {
     get value() {
-      if (!isInitialized) {
-        effectFn();
+      track(node, "value");
+      if (dirty && !owner.disposed) {
+        computation();
       }
       return cachedValue;
     },
+    set value(newValue: T) {
+      if (!setter) {
+        debugWarn("Computed", "Cannot assign to a read-only computed");
+        return;
+      }
+      setter(newValue);
+    },
   };
 }
 
 /**
  * Run an effect when reactive dependencies change
+ * Dependencies are re-tracked on every run; effects created inside the
+ * current owner are disposed along with it
  */
 export function effect(effectFn: EffectFunction): () => void {
+  const owner = createOwner(currentOwner);
   const wrappedEffect: EffectFunction = () => {
-    const oldEffect = currentEffect;
-    currentEffect = wrappedEffect;
-    try {
-      effectFn();
-    } finally {
-      currentEffect = oldEffect;
+    if (owner.disposed) {
+      return;
     }
+    runComputation(owner, wrappedEffect, effectFn);
+  };
+  owner.onDispose = () => {
+    cleanupDependencies(wrappedEffect);
+    effectDependencies.delete(wrappedEffect);
+    pendingJobs.delete(wrappedEffect);
   };
 
+  // Register before the first run so flush order follows creation order
+  getJobId(wrappedEffect);
+
   // Run immediately to establish dependencies
   wrappedEffect();
 
   // Return cleanup function
-  return () => {
-    const deps = effectDependencies.get(wrappedEffect);
-    if (deps) {
-      deps.clear();
-      effectDependencies.delete(wrappedEffect);
-    }
-  };
+  return () => disposeOwner(owner);
+}
+
+/**
+ * Create a new ownership root
+ * The root is not disposed with the surrounding scope; call the provided
+ * dispose function to tear down every effect and cleanup created inside fn
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+  const root = createOwner(null);
+  const oldEffect = currentEffect;
+  const oldOwner = currentOwner;
+  currentEffect = null;
+  currentOwner = root;
+  try {
+    return fn(() => disposeOwner(root));
+  } finally {
+    currentEffect = oldEffect;
+    currentOwner = oldOwner;
+  }
+}
+
+/**
+ * Get the currently running owner (effect, computed or root)
+ */
+export function getOwner(): Owner | null {
+  return currentOwner;
+}
+
+/**
+ * Run fn with the given owner, e.g. to attach effects created after an await
+ */
+export function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  const oldEffect = currentEffect;
+  const oldOwner = currentOwner;
+  currentEffect = null;
+  currentOwner = owner;
+  try {
+    return fn();
+  } finally {
+    currentEffect = oldEffect;
+    currentOwner = oldOwner;
+  }
+}
+
+/**
+ * Run fn without tracking what it reads, keeping the current owner
+ * Usage: effect(() => { const id = s.id; untrack(() => log(id, s.filter)); })
+ */
+export function untrack<T>(fn: () => T): T {
+  const oldEffect = currentEffect;
+  currentEffect = null;
+  try {
+    return fn();
+  } finally {
+    currentEffect = oldEffect;
+  }
+}
+
+/**
+ * Register a cleanup for the current owner
+ * Runs before the owning effect re-runs and when the owner is disposed
+ */
+export function onCleanup(fn: () => void): void {
+  if (!currentOwner) {
+    debugWarn("State", "onCleanup called outside a reactive scope");
+    return;
+  }
+  currentOwner.cleanups.push(fn);
+}
+
+/**
+ * subscribe() listeners of a state proxy or signal, if it is one
+ */
+function listenersOf(value: unknown): Set<Listener> | undefined {
+  if (typeof value === "function") {
+    const node = signalNodes.get(value as Signal<unknown>);
+    return node && ownListeners.get(node);
+  }
+  const raw = value && (value as any)[RAW];
+  return raw ? ownListeners.get(raw) : undefined;
+}
+
+/**
+ * Whether subscribe() can observe a value (a state proxy or a signal)
+ */
+export function isSubscribable(value: unknown): boolean {
+  return listenersOf(value) !== undefined;
 }
 
 /**
  * Subscribe to state changes manually
  */
 export function subscribe(stateObj: any, listener: Listener): () => void {
-  if (stateObj.__listeners) {
-    stateObj.__listeners.add(listener);
+  const listeners = listenersOf(stateObj);
+  if (listeners) {
+    listeners.add(listener);
     debugLog("State", "Added listener to state");
 
     return () => {
-      stateObj.__listeners.delete(listener);
+      listeners.delete(listener);
       debugLog("State", "Removed listener from state");
     };
   }
@@ -174,28 +1210,28 @@ export function subscribe(stateObj: any, listener: Listener): () => void {
 
 /**
  * Batch multiple state updates together
+ * Effects dirtied inside the batch run once, after the outermost batch ends
  */
-let batchDepth = 0;
-const pendingEffects = new Set<EffectFunction>();
-
 export function batch(fn: () => void): void {
+  if (batchDepth === 0) {
+    currentBatchId = ++batchCounter;
+  }
   batchDepth++;
   try {
     fn();
   } finally {
     batchDepth--;
     if (batchDepth === 0) {
-      // Execute all pending effects
-      pendingEffects.forEach((effect) => {
-        queueMicrotask(() => {
-          try {
-            effect();
-          } catch (error) {
-            console.error("Error in batched effect:", error);
-          }
-        });
-      });
-      pendingEffects.clear();
+      currentBatchId = 0;
+      flushJobs();
     }
   }
 }
+
+/**
+ * Run all pending effects and listeners synchronously
+ * Useful in tests, or when the DOM must be current right away
+ */
+export function flushSync(): void {
+  flushJobs();
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { state, signal, flushSync } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { bind } from "../src/runtime/binding.js";
+import { input } from "../src/runtime/helpers/basic_elements.js";
+import { select, textarea } from "../src/runtime/helpers/forms.js";
+
+const type = (
+  element: HTMLInputElement | HTMLTextAreaElement,
+  text: string,
+) => {
+  element.value = text;
+  element.dispatchEvent(new Event("input", { bubbles: true }));
+};
+
+// Checkboxes and radios only fire change on click while connected
+const mount = <T extends Node>(...nodes: T[]): T[] => {
+  document.body.append(...nodes);
+  return nodes;
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+const change = (element: HTMLElement) =>
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+
+describe("bind", () => {
+  it("keeps a text input and a state property in sync", () => {
+    const form = state({ email: "a@example.com" });
+    const el = createElement("input", { bind: bind(form, "email") });
+    expect(el.value).toBe("a@example.com");
+
+    type(el, "b@example.com");
+    expect(form.email).toBe("b@example.com");
+
+    form.email = "c@example.com";
+    flushSync();
+    expect(el.value).toBe("c@example.com");
+  });
+
+  it("binds a checkbox when type comes after bind", () => {
+    const form = state({ agree: false });
+    const [el] = mount(
+      createElement("input", { bind: bind(form, "agree"), type: "checkbox" }),
+    );
+
+    el.click();
+    expect(form.agree).toBe(true);
+
+    form.agree = false;
+    flushSync();
+    expect(el.checked).toBe(false);
+  });
+
+  it("writes numbers from number inputs whatever the prop order", () => {
+    const form = state({ age: 0 });
+    const el = createElement("input", {
+      bind: bind(form, "age"),
+      type: "number",
+    });
+
+    type(el, "42");
+    expect(form.age).toBe(42);
+  });
+
+  it("collects checked values of checkboxes bound to an array", () => {
+    const form = state({ tags: ["a"] as string[] });
+    const a = createElement("input", {
+      type: "checkbox",
+      value: "a",
+      bind: bind(form, "tags"),
+    });
+    const b = createElement("input", {
+      type: "checkbox",
+      value: "b",
+      bind: bind(form, "tags"),
+    });
+    mount(a, b);
+    expect([a.checked, b.checked]).toEqual([true, false]);
+
+    b.click();
+    a.click();
+    expect(form.tags).toEqual(["b"]);
+  });
+
+  it("binds radio groups and signals", () => {
+    const size = signal("s");
+    const small = createElement("input", {
+      type: "radio",
+      value: "s",
+      bind: bind(size),
+    });
+    const large = createElement("input", {
+      type: "radio",
+      value: "l",
+      bind: bind(size),
+    });
+    mount(small, large);
+    expect(small.checked).toBe(true);
+
+    large.click();
+    expect(size()).toBe("l");
+  });
+
+  it("selects the bound option once options are appended", async () => {
+    const form = state({ color: "green" });
+    const el = createElement(
+      "select",
+      { bind: bind(form, "color") },
+      createElement("option", { value: "red" }, "Red"),
+      createElement("option", { value: "green" }, "Green"),
+    );
+    await Promise.resolve();
+    expect(el.value).toBe("green");
+
+    el.value = "red";
+    change(el);
+    expect(form.color).toBe("red");
+  });
+});
+
+describe("builder bind", () => {
+  it("wires bindings at build time, after type is set", () => {
+    const form = state({ agree: false });
+    const [el] = mount(input().bind(form, "agree").type("checkbox").build());
+
+    el.click();
+    expect(form.agree).toBe(true);
+  });
+
+  it("is shared by textarea and select builders", async () => {
+    const form = state({ bio: "hi", size: "m" });
+    const area = textarea().bind(form, "bio").build();
+    const picker = select()
+      .bind(form, "size")
+      .add([
+        createElement("option", { value: "s" }, "S"),
+        createElement("option", { value: "m" }, "M"),
+      ])
+      .build();
+    await Promise.resolve();
+
+    expect(area.value).toBe("hi");
+    expect(picker.value).toBe("m");
+    type(area, "hello");
+    expect(form.bio).toBe("hello");
+  });
+});
@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { rolldown } from "rolldown";
+import { JSX_TRANSFORM } from "../src/cli/builder.js";
+
+describe("builder JSX transform", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rynex-builder-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("compiles TSX against rynex/jsx-runtime", async () => {
+    const input = path.join(root, "app.tsx");
+    fs.writeFileSync(
+      input,
+      `export default (name: string) => (
+  <>
+    <label htmlFor="name">{name}</label>
+    <ul>{[1, 2].map((n) => <li key={n}>{n}</li>)}</ul>
+  </>
+);`,
+    );
+
+    const bundle = await rolldown({
+      input,
+      cwd: root,
+      transform: JSX_TRANSFORM,
+      external: /^rynex/,
+      logLevel: "silent",
+    });
+    const { output } = await bundle.generate({ format: "es" });
+    await bundle.close();
+
+    expect(output[0].code).toMatch(/from\s*["']rynex\/jsx-runtime["']/);
+    expect(output[0].code).not.toContain("React");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  state,
+  effect,
+  flushSync,
+  reactiveMap,
+  reactiveSet,
+  onPatch,
+  StatePatch,
+} from "../src/runtime/state.js";
+import { history } from "../src/runtime/helpers/history.js";
+
+describe("reactiveMap", () => {
+  it("tracks get() per key and size per membership", () => {
+    const map = reactiveMap<string, number>([["a", 1]]);
+    const readA = vi.fn(() => map.get("a"));
+    const readSize = vi.fn(() => map.size);
+    effect(readA);
+    effect(readSize);
+
+    map.set("b", 2);
+    flushSync();
+    expect(readA).toHaveBeenCalledTimes(1);
+    expect(readSize).toHaveBeenCalledTimes(2);
+
+    map.set("a", 3);
+    flushSync();
+    expect(readA).toHaveBeenCalledTimes(2);
+    expect(readSize).toHaveBeenCalledTimes(2);
+  });
+
+  it("finds entries keyed by reactive objects", () => {
+    const key = state({ id: 1 });
+    const map = reactiveMap<object, string>();
+    map.set(key, "one");
+
+    expect(map.has(key)).toBe(true);
+    expect(map.get(key)).toBe("one");
+    expect(map.delete(key)).toBe(true);
+    expect(map.size).toBe(0);
+  });
+
+  it("keeps nested values reactive", () => {
+    const map = reactiveMap<string, { n: number }>([["a", { n: 1 }]]);
+    const seen: number[] = [];
+    effect(() => seen.push(map.get("a")!.n));
+
+    map.get("a")!.n = 2;
+    flushSync();
+    expect(seen).toEqual([1, 2]);
+  });
+});
+
+describe("reactiveSet", () => {
+  it("finds reactive members added through their proxy", () => {
+    const item = state({ id: 1 });
+    const set = reactiveSet<object>();
+    set.add(item);
+
+    expect(set.has(item)).toBe(true);
+    set.delete(item);
+    expect(set.has(item)).toBe(false);
+    expect(set.size).toBe(0);
+  });
+
+  it("re-runs has() readers only for their value", () => {
+    const set = reactiveSet<string>();
+    const hasA = vi.fn(() => set.has("a"));
+    effect(hasA);
+
+    set.add("b");
+    flushSync();
+    expect(hasA).toHaveBeenCalledTimes(1);
+
+    set.add("a");
+    flushSync();
+    expect(hasA).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("collection patches", () => {
+  it("emits patches for Map and Set writes", () => {
+    const s = state({
+      prices: new Map<string, number>(),
+      tags: new Set<string>(),
+    });
+    const patches: StatePatch[] = [];
+    onPatch(s, (patch) => patches.push(patch));
+
+    s.prices.set("apple", 1);
+    s.prices.delete("apple");
+    s.tags.add("fruit");
+
+    expect(
+      patches.map(({ path, newValue, deleted }) => [path, newValue, deleted]),
+    ).toEqual([
+      [["prices", "apple"], 1, false],
+      [["prices", "apple"], undefined, true],
+      [["tags", "fruit"], "fruit", false],
+    ]);
+  });
+
+  it("lets history undo collection writes", () => {
+    const s = state({
+      prices: new Map<string, number>([["apple", 1]]),
+      tags: new Set<string>(["a", "b"]),
+    });
+    const h = history(s);
+
+    s.prices.set("apple", 2);
+    s.prices.set("pear", 3);
+    s.tags.clear();
+
+    h.undo();
+    expect([...s.tags].sort()).toEqual(["a", "b"]);
+    h.undo();
+    h.undo();
+    expect([...s.prices]).toEqual([["apple", 1]]);
+    h.redo();
+    expect(s.prices.get("apple")).toBe(2);
+    h.stop();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it, vi } from "vitest";
+import { state, signal, flushSync, onCleanup } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { enableDebug, disableDebug } from "../src/runtime/debug.js";
+import { each, Show, Switch, Match } from "../src/runtime/helpers/utilities.js";
+
+const li = (text: string) => createElement("li", null, text);
+
+describe("each", () => {
+  it("reuses and moves rows by key", () => {
+    const s = state({
+      todos: [
+        { id: 1, t: "a" },
+        { id: 2, t: "b" },
+        { id: 3, t: "c" },
+      ],
+    });
+    const list = createElement(
+      "ul",
+      null,
+      each(
+        () => s.todos,
+        (todo) => li(todo.t),
+        (todo) => todo.id,
+      ),
+    );
+    const [a, b, c] = Array.from(list.children);
+
+    s.todos.reverse();
+    flushSync();
+    expect(list.textContent).toBe("cba");
+    expect(Array.from(list.children)).toEqual([c, b, a]);
+  });
+
+  it("re-renders a row whose key now holds a different item", () => {
+    const s = state({ todos: [{ id: 1, t: "old" }] });
+    const list = createElement(
+      "ul",
+      null,
+      each(
+        () => s.todos,
+        (todo) => li(todo.t),
+        (todo) => todo.id,
+      ),
+    );
+
+    s.todos = [{ id: 1, t: "new" }];
+    flushSync();
+    expect(list.textContent).toBe("new");
+  });
+
+  it("renders duplicate keys as separate rows and removes them all", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const items = signal(["a", "a", "b"]);
+    const list = createElement(
+      "ul",
+      null,
+      each(items, (item) => li(item)),
+    );
+    expect(list.textContent).toBe("aab");
+    expect(warn).not.toHaveBeenCalled();
+
+    items.set(["a", "b"]);
+    flushSync();
+    expect(list.textContent).toBe("ab");
+
+    items.set([]);
+    flushSync();
+    expect(list.textContent).toBe("");
+    warn.mockRestore();
+  });
+
+  it("warns about duplicate keys in debug mode", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    enableDebug();
+    try {
+      createElement(
+        "ul",
+        null,
+        each(signal(["a", "a", "b"]), (item) => li(item)),
+      );
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("[WARN:Each]");
+    } finally {
+      disableDebug();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("disposes rows that are removed", () => {
+    const items = signal([1, 2]);
+    const cleanup = vi.fn();
+    createElement(
+      "ul",
+      null,
+      each(items, (item) => {
+        onCleanup(cleanup);
+        return li(String(item));
+      }),
+    );
+
+    items.set([2]);
+    flushSync();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Show", () => {
+  it("swaps between children and fallback in place", () => {
+    const s = state({ user: null as { name: string } | null });
+    const el = createElement(
+      "div",
+      null,
+      "[",
+      Show({
+        when: () => s.user,
+        fallback: "guest",
+        children: (user) => user.name,
+      }),
+      "]",
+    );
+    expect(el.textContent).toBe("[guest]");
+
+    s.user = { name: "Ada" };
+    flushSync();
+    expect(el.textContent).toBe("[Ada]");
+
+    s.user = null;
+    flushSync();
+    expect(el.textContent).toBe("[guest]");
+  });
+
+  it("re-renders children when the value changes to another one", () => {
+    const s = state({ user: { name: "A" } as { name: string } | null });
+    const el = createElement(
+      "div",
+      null,
+      Show({ when: () => s.user, children: (user) => user.name }),
+    );
+    expect(el.textContent).toBe("A");
+
+    s.user = { name: "B" };
+    flushSync();
+    expect(el.textContent).toBe("B");
+  });
+
+  it("removes what a nested Show rendered after the first run", () => {
+    const s = state({ outer: true, inner: false });
+    const el = createElement(
+      "div",
+      null,
+      Show({
+        when: () => s.outer,
+        children: () => Show({ when: () => s.inner, children: () => "inner" }),
+      }),
+    );
+
+    s.inner = true;
+    flushSync();
+    expect(el.textContent).toBe("inner");
+
+    s.outer = false;
+    flushSync();
+    expect(el.textContent).toBe("");
+  });
+
+  it("renders the first matching case of a Switch", () => {
+    const status = signal("idle");
+    const el = createElement(
+      "div",
+      null,
+      Switch({
+        fallback: "?",
+        children: [
+          Match({ when: () => status() === "loading", children: "Loading" }),
+          Match({ when: () => status() === "done", children: "Done" }),
+        ],
+      }),
+    );
+    expect(el.textContent).toBe("?");
+
+    status.set("done");
+    flushSync();
+    expect(el.textContent).toBe("Done");
+  });
+
+  it("re-renders a Switch case when its value changes", () => {
+    const s = state({ user: { name: "A" } as { name: string } | null });
+    const el = createElement(
+      "div",
+      null,
+      Switch({
+        fallback: "nobody",
+        children: [
+          Match({ when: () => s.user, children: (user) => user.name }),
+        ],
+      }),
+    );
+    expect(el.textContent).toBe("A");
+
+    s.user = { name: "B" };
+    flushSync();
+    expect(el.textContent).toBe("B");
+
+    s.user = null;
+    flushSync();
+    expect(el.textContent).toBe("nobody");
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { flushSync, onCleanup } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { defineElement } from "../src/runtime/custom-element.js";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+const settle = () => Promise.resolve();
+
+describe("defineElement", () => {
+  it("maps observed attributes and properties to reactive props", () => {
+    defineElement(
+      "rx-greeting",
+      (props: { userName: string; count: number; open: boolean }) =>
+        createElement(
+          "p",
+          null,
+          () => `${props.userName}:${props.count}:${props.open}`,
+        ),
+      {
+        props: {
+          userName: { type: String, default: "guest" },
+          count: { type: Number, default: 0 },
+          open: { type: Boolean, default: false },
+        },
+      },
+    );
+    const el = document.createElement("rx-greeting") as HTMLElement & {
+      count: number;
+    };
+    document.body.appendChild(el);
+    expect(el.textContent).toBe("guest:0:false");
+
+    el.setAttribute("user-name", "Ada");
+    el.setAttribute("count", "3");
+    el.setAttribute("open", "");
+    flushSync();
+    expect(el.textContent).toBe("Ada:3:true");
+
+    el.count = 5;
+    flushSync();
+    expect(el.textContent).toBe("Ada:5:true");
+  });
+
+  it("keeps properties set before the element was defined", () => {
+    const el = document.createElement("rx-early") as HTMLElement & {
+      label?: string;
+    };
+    el.label = "set early";
+    document.body.appendChild(el);
+
+    defineElement(
+      "rx-early",
+      (props: { label: string }) =>
+        createElement("span", null, () => props.label),
+      { props: { label: String } },
+    );
+    expect(el.textContent).toBe("set early");
+  });
+
+  it("dispatches CustomEvents from the host", () => {
+    defineElement("rx-emitter", (_props, { emit }) =>
+      createElement("button", { onclick: () => emit("pick", { id: 7 }) }),
+    );
+    const el = document.createElement("rx-emitter");
+    const wrapper = createElement("div", null, el);
+    document.body.appendChild(wrapper);
+    const onPick = vi.fn((event: Event) => (event as CustomEvent).detail);
+    wrapper.addEventListener("pick", onPick);
+
+    el.querySelector("button")!.click();
+    expect(onPick).toHaveReturnedWith({ id: 7 });
+  });
+
+  it("renders into a shadow root with scoped styles", () => {
+    defineElement("rx-shadow", () => createElement("b", null, "inside"), {
+      shadow: true,
+      styles: "b { color: red; }",
+    });
+    const el = document.createElement("rx-shadow");
+    document.body.appendChild(el);
+
+    expect(el.shadowRoot!.querySelector("style")!.textContent).toBe(
+      "b { color: red; }",
+    );
+    expect(el.shadowRoot!.textContent).toContain("inside");
+    expect(el.textContent).toBe("");
+  });
+
+  it("disposes the component when removed, but not when moved", async () => {
+    const cleanup = vi.fn();
+    defineElement("rx-lifecycle", () => {
+      onCleanup(cleanup);
+      return createElement("i");
+    });
+    const el = document.createElement("rx-lifecycle");
+    const a = createElement("div");
+    const b = createElement("div");
+    document.body.append(a, b);
+    a.appendChild(el);
+
+    b.appendChild(el);
+    await settle();
+    expect(cleanup).not.toHaveBeenCalled();
+
+    el.remove();
+    await settle();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects props that shadow HTMLElement properties", () => {
+    expect(() =>
+      defineElement("rx-titled", () => createElement("p"), {
+        props: { title: String, hidden: Boolean, heading: String },
+      }),
+    ).toThrow(/title, hidden/);
+    expect(customElements.get("rx-titled")).toBeUndefined();
+  });
+});
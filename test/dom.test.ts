@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+import { state, signal, flushSync } from "../src/runtime/state.js";
+import {
+  createElement,
+  mathElement,
+  MATHML_NAMESPACE,
+  svgElement,
+  SVG_NAMESPACE,
+} from "../src/runtime/dom.js";
+import { fragment, Show } from "../src/runtime/helpers/utilities.js";
+import { svgBuilder } from "../src/runtime/helpers/media.js";
+
+describe("reactive children", () => {
+  it("updates text in place", () => {
+    const count = signal(0);
+    const el = createElement("p", null, "Count: ", () => count());
+    const text = el.childNodes[1];
+
+    count.set(1);
+    flushSync();
+    expect(el.textContent).toBe("Count: 1");
+    expect(el.childNodes[1]).toBe(text);
+  });
+
+  it("replaces fragment results instead of duplicating them", () => {
+    const n = signal(0);
+    const el = createElement("div", null, () => fragment(`a${n()}`, `b${n()}`));
+
+    n.set(1);
+    flushSync();
+    n.set(2);
+    flushSync();
+    expect(el.textContent).toBe("a2b2");
+  });
+
+  it("removes nodes a nested Show rendered after the first run", () => {
+    const s = state({ page: 1, open: false });
+    const el = createElement("div", null, () =>
+      fragment(
+        `page ${s.page}`,
+        Show({ when: () => s.open, children: () => " details" }),
+      ),
+    );
+
+    s.open = true;
+    flushSync();
+    expect(el.textContent).toBe("page 1 details");
+
+    s.page = 2;
+    flushSync();
+    expect(el.textContent).toBe("page 2 details");
+  });
+
+  it("removes a nested Show that starts the rendered result", () => {
+    const s = state({ page: 1, open: false });
+    const el = createElement("div", null, () =>
+      fragment(
+        Show({ when: () => s.open, children: () => "details " }),
+        `page ${s.page}`,
+      ),
+    );
+
+    s.open = true;
+    flushSync();
+    s.page = 2;
+    flushSync();
+    expect(el.textContent).toBe("details page 2");
+  });
+
+  it("keeps siblings outside the reactive region", () => {
+    const items = signal(["x"]);
+    const el = createElement(
+      "ul",
+      null,
+      createElement("li", null, "first"),
+      () => items().map((item) => createElement("li", null, item)),
+      createElement("li", null, "last"),
+    );
+
+    items.set(["y", "z"]);
+    flushSync();
+    expect(el.textContent).toBe("firstyzlast");
+  });
+
+  it("binds function props", () => {
+    const s = state({ active: false, label: "a" });
+    const el = createElement("button", {
+      class: () => (s.active ? "on" : "off"),
+      title: () => s.label,
+    });
+
+    s.active = true;
+    s.label = "b";
+    flushSync();
+    expect(el.className).toBe("on");
+    expect(el.getAttribute("title")).toBe("b");
+  });
+});
+
+describe("namespaces", () => {
+  const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+  const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+  it("creates SVG and MathML tags in their own namespace", () => {
+    expect(createElement("circle").namespaceURI).toBe(SVG_NAMESPACE);
+    expect(createElement("mfrac").namespaceURI).toBe(MATHML_NAMESPACE);
+    expect(createElement("div").namespaceURI).toBe(HTML_NAMESPACE);
+    expect(createElement("a").namespaceURI).toBe(HTML_NAMESPACE);
+    expect(svgElement("a").namespaceURI).toBe(SVG_NAMESPACE);
+    expect(mathElement("mglyph").namespaceURI).toBe(MATHML_NAMESPACE);
+  });
+
+  it("moves shared tags built before their SVG parent", () => {
+    const onClick = vi.fn();
+    const svg = createElement(
+      "svg",
+      null,
+      createElement(
+        "a",
+        { href: "#target", class: "link", onClick },
+        createElement("title", null, "Go"),
+      ),
+    );
+    const link = svg.firstElementChild as SVGAElement;
+
+    expect(link.namespaceURI).toBe(SVG_NAMESPACE);
+    expect(link.getAttribute("href")).toBe("#target");
+    expect(link.getAttribute("class")).toBe("link");
+    expect(link.firstElementChild!.namespaceURI).toBe(SVG_NAMESPACE);
+    expect(link.textContent).toBe("Go");
+
+    link.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("moves unknown tags into MathML", () => {
+    const math = createElement("math", null, createElement("mglyph"));
+    expect(math.firstElementChild!.namespaceURI).toBe(MATHML_NAMESPACE);
+  });
+
+  it("keeps HTML children of foreignObject and annotation-xml", () => {
+    const svg = createElement(
+      "svg",
+      null,
+      createElement("foreignObject", null, createElement("a", { href: "/" })),
+    );
+    const math = createElement(
+      "math",
+      null,
+      createElement("annotation-xml", null, createElement("span")),
+    );
+
+    expect(svg.querySelector("a")!.namespaceURI).toBe(HTML_NAMESPACE);
+    expect(math.querySelector("span")!.namespaceURI).toBe(HTML_NAMESPACE);
+  });
+
+  it("leaves elements with reactive bindings in place", () => {
+    const label = signal("a");
+    const link = createElement("a", { title: () => label() });
+    const svg = createElement("svg", null, link);
+
+    expect(svg.firstElementChild).toBe(link);
+    expect(link.namespaceURI).toBe(HTML_NAMESPACE);
+  });
+
+  it("sets and removes xlink attributes in the xlink namespace", () => {
+    const target = signal<string | null>("#a");
+    const use = svgElement("use", { "xlink:href": () => target() });
+
+    expect(use.getAttributeNS(XLINK_NAMESPACE, "href")).toBe("#a");
+    target.set(null);
+    flushSync();
+    expect(use.hasAttributeNS(XLINK_NAMESPACE, "href")).toBe(false);
+  });
+
+  it("sets class on SVG elements as an attribute", () => {
+    const active = signal(false);
+    const circle = createElement("circle", {
+      class: () => (active() ? "dot on" : "dot"),
+    });
+    expect(circle.getAttribute("class")).toBe("dot");
+
+    active.set(true);
+    flushSync();
+    expect(circle.getAttribute("class")).toBe("dot on");
+  });
+
+  it("builds SVG with SvgBuilder", () => {
+    const icon = svgBuilder("svg")
+      .viewBox("0 0 10 10")
+      .class("icon")
+      .add(
+        svgBuilder("a")
+          .href("#home")
+          .add(createElement("title", null, "Home"))
+          .build(),
+      )
+      .build();
+    const link = icon.firstElementChild!;
+
+    expect(icon.getAttribute("viewBox")).toBe("0 0 10 10");
+    expect(icon.getAttribute("class")).toBe("icon");
+    expect(link.namespaceURI).toBe(SVG_NAMESPACE);
+    expect(link.getAttribute("href")).toBe("#home");
+    expect(link.getAttributeNS(XLINK_NAMESPACE, "href")).toBe("#home");
+    expect(link.firstElementChild!.namespaceURI).toBe(SVG_NAMESPACE);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { state, createRoot, flushSync } from "../src/runtime/state.js";
+import { createElement, mount, on } from "../src/runtime/dom.js";
+import { bind } from "../src/runtime/binding.js";
+import { defineElement } from "../src/runtime/custom-element.js";
+import { render } from "../src/runtime/renderer.js";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("event handlers", () => {
+  it("fire on elements that are not in the document", () => {
+    const onClick = vi.fn();
+    createElement("button", { onClick }).click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("fire once for elements connected when the handler is added", () => {
+    const button = createElement("button");
+    document.body.appendChild(button);
+    const onClick = vi.fn();
+    const remove = on(button, "click", onClick);
+
+    button.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+
+    remove();
+    button.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("move to the document listener when their tree is mounted", () => {
+    const onClick = vi.fn();
+    const button = createElement("button", { onClick });
+    const wrapper = createElement("div", null, button);
+    // Stops the event before it reaches the document
+    const stop = (event: Event) => event.stopPropagation();
+    wrapper.addEventListener("click", stop);
+
+    button.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+
+    mount(wrapper, document.body);
+    button.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+
+    wrapper.removeEventListener("click", stop);
+    button.click();
+    expect(onClick).toHaveBeenCalledTimes(2);
+  });
+
+  it("run in bubbling order across delegated and direct handlers", () => {
+    const calls: string[] = [];
+    const child = createElement("button");
+    const parent = createElement(
+      "div",
+      { onClick: () => calls.push("parent") },
+      child,
+    );
+    document.body.appendChild(parent);
+    // Added while connected, so delegated to the document
+    on(child, "click", (event) => {
+      calls.push("child");
+      event.stopPropagation();
+    });
+
+    child.click();
+    expect(calls).toEqual(["child"]);
+  });
+
+  it("expose the handling element as currentTarget", () => {
+    let current: EventTarget | null = null;
+    const button = createElement("button");
+    const parent = createElement(
+      "div",
+      { onClick: (event: Event) => (current = event.currentTarget) },
+      button,
+    );
+    document.body.appendChild(parent);
+
+    button.click();
+    expect(current).toBe(parent);
+  });
+
+  it("apply key and guard modifiers", () => {
+    const onEnter = vi.fn();
+    const input = createElement("input", { "onKeyDown:enter": onEnter });
+
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "a", bubbles: true }),
+    );
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Enter", bubbles: true }),
+    );
+    expect(onEnter).toHaveBeenCalledTimes(1);
+  });
+
+  it("are released with the scope that added them", () => {
+    const onClick = vi.fn();
+    const [button, dispose] = createRoot((dispose) => [
+      createElement("button", { onClick }),
+      dispose,
+    ]);
+
+    dispose();
+    button.click();
+    expect(onClick).not.toHaveBeenCalled();
+  });
+});
+
+describe("events inside a shadow root", () => {
+  it("deliver change, submit and checkbox bindings", () => {
+    const s = state({ agree: false });
+    const onChange = vi.fn();
+    const onSubmit = vi.fn((event: Event) => event.preventDefault());
+
+    defineElement(
+      "rx-shadow-form",
+      () =>
+        createElement(
+          "form",
+          { onSubmit },
+          createElement(
+            "select",
+            { onChange },
+            createElement("option", null, "a"),
+          ),
+          createElement("input", { type: "checkbox", bind: bind(s, "agree") }),
+        ),
+      { shadow: true },
+    );
+    const host = document.createElement("rx-shadow-form");
+    document.body.appendChild(host);
+    const root = host.shadowRoot!;
+
+    root
+      .querySelector("select")!
+      .dispatchEvent(new Event("change", { bubbles: true }));
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    root.querySelector("input")!.click();
+    flushSync();
+    expect(s.agree).toBe(true);
+
+    root.querySelector("form")!.requestSubmit();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it("keep working after morphing moves them onto connected nodes", () => {
+    const host = document.createElement("div");
+    document.body.appendChild(host);
+    const root = host.attachShadow({ mode: "open" });
+    const onClick = vi.fn();
+    const onChange = vi.fn();
+    const view = () =>
+      createElement(
+        "div",
+        null,
+        createElement("button", { onClick }),
+        createElement("select", { onChange }),
+      );
+
+    const instance = render(view, root, {}, { morph: true });
+    instance.update();
+
+    root.querySelector("button")!.click();
+    root
+      .querySelector("select")!
+      .dispatchEvent(new Event("change", { bubbles: true }));
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { state, batch, flushSync } from "../src/runtime/state.js";
+import { history } from "../src/runtime/helpers/history.js";
+import { button } from "../src/runtime/helpers/basic_elements.js";
+
+describe("history", () => {
+  it("undoes and redoes writes, one entry per batch", () => {
+    const doc = state({ title: "a", tags: [] as string[] });
+    const h = history(doc);
+
+    doc.title = "b";
+    batch(() => {
+      doc.title = "c";
+      doc.tags.push("x");
+    });
+    expect(h.getEntries()).toHaveLength(2);
+
+    h.undo();
+    expect(doc.title).toBe("b");
+    expect(doc.tags).toEqual([]);
+    h.undo();
+    expect(doc.title).toBe("a");
+    h.redo();
+    h.redo();
+    expect(doc.title).toBe("c");
+    expect(doc.tags).toEqual(["x"]);
+    h.stop();
+  });
+
+  it("drives a button's disabled state through a getter", () => {
+    const doc = state({ n: 0 });
+    const h = history(doc);
+    const undo = button("Undo")
+      .disabled(() => !h.canUndo)
+      .build();
+    expect(undo.disabled).toBe(true);
+
+    doc.n = 1;
+    flushSync();
+    expect(undo.disabled).toBe(false);
+
+    h.undo();
+    flushSync();
+    expect(undo.disabled).toBe(true);
+    h.stop();
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { state, flushSync } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { hydrate } from "../src/runtime/renderer.js";
+import { renderToString } from "../src/runtime/server.js";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("hydrate", () => {
+  it("keeps server markup and attaches handlers and effects", async () => {
+    const counter = state({ n: 0 });
+    const Counter = () =>
+      createElement(
+        "div",
+        { class: "counter" },
+        createElement("button", { onclick: () => counter.n++ }, "+"),
+        createElement("output", null, () => String(counter.n)),
+      );
+
+    const container = document.createElement("div");
+    container.innerHTML = await renderToString(Counter);
+    document.body.appendChild(container);
+    const serverRoot = container.firstElementChild;
+    const serverButton = container.querySelector("button")!;
+
+    hydrate(Counter, container);
+    expect(container.firstElementChild).toBe(serverRoot);
+    expect(container.querySelector("button")).toBe(serverButton);
+
+    serverButton.click();
+    flushSync();
+    expect(container.querySelector("output")!.textContent).toBe("1");
+  });
+
+  it("reports markup that doesn't match the client render", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const container = document.createElement("div");
+    container.innerHTML = "<div><span>server</span></div>";
+
+    hydrate(
+      () => createElement("div", null, createElement("p", null, "client")),
+      container,
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Hydration mismatch"),
+    );
+    expect(container.innerHTML).toBe("<div><p>client</p></div>");
+    warn.mockRestore();
+  });
+});
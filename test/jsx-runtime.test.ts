@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Fragment, jsx, jsxs } from "../src/runtime/jsx-runtime.js";
+import { flushSync, state } from "../src/runtime/state.js";
+
+describe("jsx runtime", () => {
+  it("creates intrinsic elements with props and children", () => {
+    const el = jsx("label", {
+      class: "field",
+      htmlFor: "name",
+      children: "Name",
+    }) as HTMLLabelElement;
+
+    expect(el.tagName).toBe("LABEL");
+    expect(el.className).toBe("field");
+    expect(el.getAttribute("for")).toBe("name");
+    expect(el.hasAttribute("htmlFor")).toBe(false);
+    expect(el.textContent).toBe("Name");
+  });
+
+  it("turns a key into data-key", () => {
+    const item = jsx("li", { children: "a" }, 7) as HTMLElement;
+    const unkeyed = jsx("li", { children: "b" }) as HTMLElement;
+
+    expect(item.dataset.key).toBe("7");
+    expect(unkeyed.hasAttribute("data-key")).toBe(false);
+  });
+
+  it("flattens static children passed to jsxs", () => {
+    const list = jsxs("ul", {
+      children: [
+        jsx("li", { children: "one" }, "1"),
+        [jsx("li", { children: "two" }, "2"), "three"],
+      ],
+    }) as HTMLElement;
+
+    expect(list.children).toHaveLength(2);
+    expect(list.textContent).toBe("onetwothree");
+  });
+
+  it("calls components with their props and children", () => {
+    const Greeting = (props: { name: string; children?: unknown }) =>
+      jsx("p", { children: ["Hello ", props.name, props.children] });
+
+    const el = jsx(Greeting, { name: "Ada", children: "!" }) as HTMLElement;
+    expect(el.outerHTML).toBe("<p>Hello Ada!</p>");
+
+    const bare = jsx(() => jsx("hr", null), null) as HTMLElement;
+    expect(bare.tagName).toBe("HR");
+  });
+
+  it("groups children in a fragment without a wrapper", () => {
+    const fragment = jsx(Fragment, {
+      children: [jsx("b", { children: "x" }), "y"],
+    });
+    const host = document.createElement("div");
+    host.appendChild(fragment);
+
+    expect(host.innerHTML).toBe("<b>x</b>y");
+    expect(Fragment({}).childNodes).toHaveLength(0);
+  });
+
+  it("keeps function children reactive", () => {
+    const counter = state({ count: 1 });
+    const el = jsx("span", {
+      children: () => `count: ${counter.count}`,
+    }) as HTMLElement;
+    expect(el.textContent).toBe("count: 1");
+
+    counter.count = 2;
+    flushSync();
+    expect(el.textContent).toBe("count: 2");
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { state } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { morph } from "../src/runtime/morph.js";
+import { render } from "../src/runtime/renderer.js";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("morph", () => {
+  it("patches attributes and text on the existing nodes", () => {
+    const from = createElement(
+      "div",
+      { class: "a" },
+      createElement("span", null, "old"),
+    );
+    const span = from.firstChild;
+    const result = morph(
+      from,
+      createElement("div", { class: "b" }, createElement("span", null, "new")),
+    );
+
+    expect(result).toBe(from);
+    expect(from.className).toBe("b");
+    expect(from.firstChild).toBe(span);
+    expect(from.textContent).toBe("new");
+  });
+
+  it("matches keyed children when they move", () => {
+    const row = (key: string) => createElement("li", { "data-key": key }, key);
+    const from = createElement("ul", null, row("a"), row("b"), row("c"));
+    const [a, b, c] = Array.from(from.children);
+
+    morph(from, createElement("ul", null, row("c"), row("a"), row("b")));
+    expect(Array.from(from.children)).toEqual([c, a, b]);
+  });
+
+  it("keeps focus, caret and typed input", () => {
+    const view = (label: string) =>
+      createElement(
+        "form",
+        null,
+        createElement("label", null, label),
+        createElement("input", { id: "name" }),
+      );
+    const from = view("Name");
+    document.body.appendChild(from);
+    const input = from.querySelector("input")!;
+    input.focus();
+    input.value = "Ada";
+    input.setSelectionRange(1, 2);
+
+    morph(from, view("Your name"));
+    expect(from.querySelector("label")!.textContent).toBe("Your name");
+    expect(from.querySelector("input")).toBe(input);
+    expect(document.activeElement).toBe(input);
+    expect(input.value).toBe("Ada");
+    expect([input.selectionStart, input.selectionEnd]).toEqual([1, 2]);
+  });
+});
+
+describe("render({ morph: true })", () => {
+  it("patches the mounted view on update", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const s = state({ count: 0 });
+    const view = () =>
+      createElement(
+        "div",
+        null,
+        createElement("input", { id: "field" }),
+        createElement("p", null, `Count ${s.count}`),
+      );
+
+    const instance = render(view, container, {}, { morph: true });
+    const input = container.querySelector("input")!;
+    input.value = "typed";
+
+    s.count = 1;
+    instance.update();
+    expect(container.querySelector("p")!.textContent).toBe("Count 1");
+    expect(container.querySelector("input")).toBe(input);
+    expect(input.value).toBe("typed");
+  });
+});
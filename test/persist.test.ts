@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { state, flushSync } from "../src/runtime/state.js";
+import {
+  persist,
+  memoryAdapter,
+  StorageAdapter,
+} from "../src/runtime/helpers/persist.js";
+
+const stored = (value: object, version = 0) =>
+  JSON.stringify({ version, state: value });
+
+// memoryAdapter behind promises, as IndexedDB would be
+function asyncAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const memory = memoryAdapter(initial);
+  return {
+    getItem: async (key) => memory.getItem(key),
+    setItem: async (key, value) => memory.setItem(key, value),
+    removeItem: async (key) => memory.removeItem(key),
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("persist", () => {
+  it("restores from sync storage before returning and saves writes", () => {
+    const storage = memoryAdapter({ prefs: stored({ theme: "dark" }) });
+    const prefs = state({ theme: "light", size: 1 });
+    const handle = persist(prefs, { key: "prefs", storage });
+
+    expect(handle.isHydrated()).toBe(true);
+    expect(prefs.theme).toBe("dark");
+
+    prefs.size = 2;
+    flushSync();
+    expect(JSON.parse(storage.getItem("prefs") as string)).toEqual({
+      version: 0,
+      state: { theme: "dark", size: 2 },
+    });
+    handle.stop();
+  });
+
+  it("restores from async storage once ready", async () => {
+    const storage = asyncAdapter({ prefs: stored({ theme: "dark" }) });
+    const prefs = state({ theme: "light" });
+    const handle = persist(prefs, { key: "prefs", storage });
+
+    expect(handle.isHydrated()).toBe(false);
+    await handle.ready;
+    expect(handle.isHydrated()).toBe(true);
+    expect(prefs.theme).toBe("dark");
+    handle.stop();
+  });
+
+  it("migrates older versions and saves the result", () => {
+    const storage = memoryAdapter({ prefs: stored({ dark: true }, 1) });
+    const prefs = state({ theme: "light" });
+    const handle = persist(prefs, {
+      key: "prefs",
+      storage,
+      version: 2,
+      migrate: (old, fromVersion) => {
+        expect(fromVersion).toBe(1);
+        return { theme: old.dark ? "dark" : "light" };
+      },
+    });
+
+    expect(prefs.theme).toBe("dark");
+    expect(JSON.parse(storage.getItem("prefs") as string)).toEqual({
+      version: 2,
+      state: { theme: "dark" },
+    });
+    handle.stop();
+  });
+
+  it("discards state from a newer version", () => {
+    const storage = memoryAdapter({ prefs: stored({ theme: "dark" }, 3) });
+    const prefs = state({ theme: "light" });
+    persist(prefs, { key: "prefs", storage, version: 2 }).stop();
+    expect(prefs.theme).toBe("light");
+  });
+
+  it("writes once per debounce window", () => {
+    vi.useFakeTimers();
+    const storage = memoryAdapter();
+    const setItem = vi.spyOn(storage, "setItem");
+    const doc = state({ text: "" });
+    const handle = persist(doc, { key: "doc", storage, debounce: 100 });
+
+    doc.text = "a";
+    flushSync();
+    doc.text = "ab";
+    flushSync();
+    vi.advanceTimersByTime(50);
+    doc.text = "abc";
+    flushSync();
+    expect(setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(setItem).toHaveBeenCalledWith("doc", stored({ text: "abc" }));
+    handle.stop();
+  });
+
+  it("keeps persisting after a failed async read", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = memoryAdapter();
+    const prefs = state({ theme: "light" });
+    const handle = persist(prefs, {
+      key: "prefs",
+      storage: {
+        ...storage,
+        getItem: () => Promise.reject(new Error("blocked")),
+      },
+    });
+
+    await handle.ready;
+    expect(error).toHaveBeenCalled();
+    expect(handle.isHydrated()).toBe(true);
+    prefs.theme = "dark";
+    flushSync();
+    expect(storage.getItem("prefs")).toBe(stored({ theme: "dark" }));
+    handle.stop();
+  });
+
+  it("keeps persisting when an async migration throws", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const prefs = state({ theme: "light" });
+    const handle = persist(prefs, {
+      key: "prefs",
+      storage: asyncAdapter({ prefs: stored({}, 1) }),
+      version: 2,
+      migrate: () => {
+        throw new Error("bad data");
+      },
+    });
+
+    await expect(handle.ready).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    expect(handle.isHydrated()).toBe(true);
+    handle.stop();
+  });
+
+  it("reports failed writes", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const prefs = state({ theme: "light" });
+    const handle = persist(prefs, {
+      key: "prefs",
+      storage: {
+        ...memoryAdapter(),
+        setItem: () => Promise.reject(new Error("quota")),
+      },
+    });
+
+    prefs.theme = "dark";
+    await handle.flush();
+    await Promise.resolve();
+    expect(error).toHaveBeenCalledWith(
+      "Failed to persist state:",
+      expect.any(Error),
+    );
+    handle.stop();
+  });
+});
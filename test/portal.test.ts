@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createRoot, flushSync, signal } from "../src/runtime/state.js";
+import { createElement } from "../src/runtime/dom.js";
+import { portal } from "../src/runtime/helpers/utilities.js";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+const settle = () => Promise.resolve();
+
+describe("portal", () => {
+  it("mounts into the target and is removed with its owner", async () => {
+    const target = createElement("div", { id: "modal-root" });
+    document.body.appendChild(target);
+
+    const dispose = createRoot((dispose) => {
+      document.body.appendChild(
+        createElement(
+          "main",
+          null,
+          portal([createElement("p", null, "modal")], "#modal-root"),
+        ),
+      );
+      return dispose;
+    });
+    await settle();
+    expect(target.textContent).toBe("modal");
+
+    dispose();
+    expect(target.textContent).toBe("");
+  });
+
+  it("returns a disposer for portals created outside a scope", async () => {
+    const view = portal(() => createElement("p", null, "tip"));
+    document.body.appendChild(view);
+    await settle();
+    expect(document.body.textContent).toBe("tip");
+
+    view.dispose();
+    expect(document.body.textContent).toBe("");
+  });
+
+  it("never mounts once disposed before it connected", async () => {
+    const view = portal([createElement("p", null, "late")]);
+    await settle();
+    view.dispose();
+
+    const host = createElement("div");
+    host.appendChild(view);
+    document.body.appendChild(host);
+    await settle();
+    expect(document.body.textContent).toBe("");
+  });
+
+  it("mounts when inserted after creation", async () => {
+    const view = portal([createElement("p", null, "later")]);
+    await settle();
+    expect(document.body.textContent).toBe("");
+
+    document.body.appendChild(createElement("div", null, view));
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(document.body.textContent).toBe("later");
+    view.dispose();
+  });
+
+  it("moves content when a getter target changes", async () => {
+    const left = createElement("div", { id: "left" });
+    const right = createElement("div", { id: "right" });
+    document.body.append(left, right);
+    const side = signal("#left");
+
+    const view = portal([createElement("p", null, "x")], () => side());
+    document.body.appendChild(view);
+    await settle();
+    expect(left.textContent).toBe("x");
+
+    side.set("#right");
+    flushSync();
+    expect(left.textContent).toBe("");
+    expect(right.textContent).toBe("x");
+    view.dispose();
+  });
+});
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { prerender, PrerenderResult } from "../src/cli/prerender.js";
+
+const TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Site</title>
+  <meta name="description" content="Default">
+</head>
+<body><div id="app"></div></body>
+</html>`;
+
+const PAGES: Record<string, string> = {
+  "layout.ts": `import { createElement } from "rynex";
+export default (_ctx, outlet) => createElement("div", { class: "shell" }, outlet);`,
+  "page.ts": `import { createElement, head } from "rynex";
+export default () => {
+  head({ title: "Home", meta: [{ name: "description", content: "Welcome" }] });
+  return createElement("h1", null, "Home");
+};`,
+  "not-found.ts": `import { createElement } from "rynex";
+export default () => createElement("h1", null, "Missing");`,
+  "blog/[slug]/page.ts": `import { createElement, head } from "rynex";
+export const getStaticPaths = () => [
+  { params: { slug: "hello" }, data: { title: "Hello" } },
+  { params: { slug: "a b" }, data: { title: "Spaces" } },
+];
+export default (ctx) => {
+  head({ title: ctx.data.title });
+  return createElement("article", null, ctx.params.slug);
+};`,
+  "users/[id]/page.ts": `import { createElement } from "rynex";
+export default (ctx) => createElement("p", null, ctx.params.id);`,
+};
+
+describe("prerender", () => {
+  let root: string;
+  let distDir: string;
+  let result: PrerenderResult;
+
+  const read = (...segments: string[]) =>
+    fs.readFileSync(path.join(distDir, ...segments), "utf8");
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rynex-prerender-"));
+    const pagesDir = path.join(root, "src", "pages");
+    distDir = path.join(root, "dist");
+    Object.entries(PAGES).forEach(([file, source]) => {
+      const filePath = path.join(pagesDir, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, source);
+    });
+
+    result = await prerender({
+      projectRoot: root,
+      distDir,
+      pagesDir,
+      template: TEMPLATE,
+    });
+  }, 60_000);
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("writes each static route inside its layouts with its head", () => {
+    const html = read("index.html");
+    expect(html).toContain(
+      '<div id="app" data-prerendered><div class="shell"><div class="router-outlet"><h1>Home</h1></div></div></div>',
+    );
+    expect(html).toContain("<title>Home</title>");
+    expect(html).not.toContain("<title>Site</title>");
+    expect(html).toContain('content="Welcome"');
+    expect(html).not.toContain('content="Default"');
+  });
+
+  it("renders one page per getStaticPaths() entry", () => {
+    expect(result.pages).toEqual(
+      expect.arrayContaining(["/", "/blog/hello", "/blog/a%20b"]),
+    );
+    expect(read("blog", "hello", "index.html")).toContain(
+      "<title>Hello</title>",
+    );
+    expect(read("blog", "a b", "index.html")).toContain(
+      "<article>a b</article>",
+    );
+  });
+
+  it("skips dynamic routes without getStaticPaths()", () => {
+    expect(result.skipped).toEqual(["/users/:id"]);
+    expect(fs.existsSync(path.join(distDir, "users"))).toBe(false);
+  });
+
+  it("writes 404.html from the not-found page inside the root layout", () => {
+    const html = read("404.html");
+    expect(html).toContain(
+      '<div id="app" data-prerendered><div class="shell"><div class="router-outlet"><h1>Missing</h1></div></div></div>',
+    );
+    expect(html).toContain("<title>Site</title>");
+  });
+});
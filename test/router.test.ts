@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createRouter as createRouterUnderTest,
+  createMemoryHistory,
+  RouteConfig,
+  Router,
+} from "../src/runtime/router.js";
+
+const page = (text: string) => () => {
+  const el = document.createElement("p");
+  el.textContent = text;
+  return el;
+};
+
+// Routers created by a test, destroyed after it
+const routers: Router[] = [];
+const createRouter = (...args: Parameters<typeof createRouterUnderTest>) => {
+  const router = createRouterUnderTest(...args);
+  routers.push(router);
+  return router;
+};
+
+afterEach(() => {
+  routers.splice(0).forEach((router) => router.destroy());
+});
+
+// Click a link; reports whether a router took it over. The browser's own
+// navigation is always cancelled afterwards, as jsdom cannot perform it.
+const clickLink = (href: string): boolean => {
+  const link = document.createElement("a");
+  link.href = href;
+  document.body.appendChild(link);
+  let intercepted = false;
+  const afterRouters = (event: Event) => {
+    intercepted = event.defaultPrevented;
+    event.preventDefault();
+  };
+  window.addEventListener("click", afterRouters);
+  link.click();
+  window.removeEventListener("click", afterRouters);
+  link.remove();
+  return intercepted;
+};
+
+// Lets a navigation started by mount() finish rendering
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+const routes: RouteConfig[] = [
+  { path: "/", component: page("home") },
+  { path: "/about", component: page("about") },
+];
+
+describe("router base and modes", () => {
+  beforeEach(() => {
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, "", "/");
+    vi.restoreAllMocks();
+  });
+
+  it("strips and adds the base in history mode", async () => {
+    window.history.replaceState(null, "", "/docs/about");
+    const router = createRouter(routes, { mode: "history", base: "/docs/" });
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+
+    expect(router.routeState.path).toBe("/about");
+    expect(container.textContent).toBe("about");
+    expect(router.href("/")).toBe("/docs/");
+
+    await router.push("/", { scroll: false });
+    expect(window.location.pathname).toBe("/docs/");
+    expect(container.textContent).toBe("home");
+  });
+
+  it("keeps the base out of the fragment in hash mode", async () => {
+    window.history.replaceState(null, "", "/docs/#/about");
+    const router = createRouter(routes, { mode: "hash", base: "/docs" });
+    router.mount(document.createElement("div"));
+    await settle();
+
+    expect(router.routeState.path).toBe("/about");
+    expect(router.href("/about")).toBe("/docs/#/about");
+
+    await router.push("/", { scroll: false });
+    expect(window.location.pathname).toBe("/docs/");
+    expect(window.location.hash).toBe("#/");
+  });
+
+  it("routes clicks on hash-mode links built by href()", async () => {
+    window.history.replaceState(null, "", "/docs/#/");
+    const router = createRouter(routes, { mode: "hash", base: "/docs" });
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+
+    const link = document.createElement("a");
+    link.href = router.href("/about");
+    document.body.appendChild(link);
+    link.click();
+    await settle();
+    link.remove();
+
+    expect(container.textContent).toBe("about");
+    expect(window.location.hash).toBe("#/about");
+  });
+
+  it("leaves links outside the base to the browser", async () => {
+    window.history.replaceState(null, "", "/docs/");
+    const router = createRouter(routes, { mode: "history", base: "/docs" });
+    router.mount(document.createElement("div"));
+    await settle();
+    const push = vi.spyOn(router, "push");
+
+    const clicks = ["/other", "/docsfoo", "/docs/about"].map(clickLink);
+
+    expect(clicks).toEqual([false, false, true]);
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(push).toHaveBeenCalledWith("/about");
+  });
+
+  it("stops handling clicks once destroyed", async () => {
+    const router = createRouter(routes, { mode: "history" });
+    router.mount(document.createElement("div"));
+    await settle();
+    router.destroy();
+
+    expect(clickLink("/about")).toBe(false);
+  });
+
+  it("uses a relative fragment href in hash mode without a base", () => {
+    const router = createRouter(routes, { mode: "hash" });
+    expect(router.href("/about")).toBe("#/about");
+  });
+
+  it("routes through memory history without touching the URL", async () => {
+    const router = createRouter(routes, { mode: "memory", base: "/docs" });
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+    expect(container.textContent).toBe("home");
+
+    await router.push("/about", { scroll: false });
+    expect(container.textContent).toBe("about");
+    expect(router.routeState.path).toBe("/about");
+    expect(window.location.pathname).toBe("/");
+  });
+
+  it("never intercepts link clicks in memory mode", () => {
+    createRouter(routes, { mode: "memory" });
+    expect(clickLink("/about")).toBe(false);
+  });
+});
+
+describe("nested layouts", () => {
+  beforeEach(() => {
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const layout = (name: string) => (_ctx: unknown, outlet: HTMLElement) => {
+    const el = document.createElement("section");
+    el.dataset.layout = name;
+    el.append(`${name}:`, outlet);
+    return el;
+  };
+
+  it("renders an index child at the layout's own path", async () => {
+    const router = createRouter(
+      [
+        {
+          path: "/users",
+          component: layout("users"),
+          children: [
+            { path: "", component: page("list") },
+            { path: ":id", component: page("detail") },
+          ],
+        },
+      ],
+      { history: createMemoryHistory("/users") },
+    );
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+    expect(container.textContent).toBe("users:list");
+
+    await router.push("/users/7", { scroll: false });
+    expect(container.textContent).toBe("users:detail");
+    expect(router.routeState.params).toEqual({ id: "7" });
+  });
+
+  it("renders a layout without an index child at its own path", async () => {
+    const router = createRouter(
+      [
+        {
+          path: "/settings",
+          component: layout("settings"),
+          children: [{ path: "profile", component: page("profile") }],
+        },
+      ],
+      { history: createMemoryHistory("/settings") },
+    );
+    router.setNotFound(page("not found"));
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+
+    expect(container.textContent).toBe("settings:");
+    const shell = container.querySelector("[data-layout]");
+    await router.push("/settings/profile", { scroll: false });
+    expect(container.textContent).toBe("settings:profile");
+    expect(container.querySelector("[data-layout]")).toBe(shell);
+  });
+
+  it("keeps the layout while navigating between its children", async () => {
+    const router = createRouter(
+      [
+        {
+          path: "/docs",
+          component: layout("docs"),
+          children: [
+            { path: "intro", component: page("intro") },
+            { path: "api", component: page("api") },
+          ],
+        },
+      ],
+      { history: createMemoryHistory("/docs/intro") },
+    );
+    const container = document.createElement("div");
+    router.mount(container);
+    await settle();
+
+    const shell = container.querySelector("[data-layout]");
+    await router.push("/docs/api", { scroll: false });
+    expect(container.querySelector("[data-layout]")).toBe(shell);
+    expect(container.textContent).toBe("docs:api");
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  state,
+  effect,
+  batch,
+  flushSync,
+  computed,
+  signal,
+  createRoot,
+  onCleanup,
+} from "../src/runtime/state.js";
+
+describe("scheduler", () => {
+  it("runs an effect dirtied by several writes once per flush", () => {
+    const s = state({ a: 1, b: 2 });
+    const run = vi.fn(() => s.a + s.b);
+    effect(run);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    s.a = 10;
+    s.b = 20;
+    s.a = 11;
+    expect(run).toHaveBeenCalledTimes(1);
+    flushSync();
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("flushes on a microtask without flushSync", async () => {
+    const s = state({ n: 0 });
+    const seen: number[] = [];
+    effect(() => seen.push(s.n));
+
+    s.n = 1;
+    s.n = 2;
+    await Promise.resolve();
+    expect(seen).toEqual([0, 2]);
+  });
+
+  it("runs effects in creation order", () => {
+    const s = state({ n: 0 });
+    const order: string[] = [];
+    effect(() => {
+      s.n;
+      order.push("first");
+    });
+    effect(() => {
+      s.n;
+      order.push("second");
+    });
+    order.length = 0;
+
+    s.n++;
+    flushSync();
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("aborts effects that keep re-triggering each other", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const s = state({ n: 0 });
+    effect(() => {
+      s.n = s.n + 1;
+    });
+    flushSync();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining("infinite update loop"),
+    );
+    error.mockRestore();
+  });
+});
+
+describe("batch", () => {
+  it("defers effects until the outermost batch ends", () => {
+    const s = state({ a: 0, b: 0 });
+    const seen: string[] = [];
+    effect(() => seen.push(`${s.a}/${s.b}`));
+
+    batch(() => {
+      s.a = 1;
+      batch(() => {
+        s.b = 1;
+      });
+      expect(seen).toEqual(["0/0"]);
+    });
+    expect(seen).toEqual(["0/0", "1/1"]);
+  });
+});
+
+describe("computed", () => {
+  it("recomputes lazily, only when read after a change", () => {
+    const s = state({ n: 1 });
+    const getter = vi.fn(() => s.n * 2);
+    const double = computed(getter);
+    expect(getter).not.toHaveBeenCalled();
+
+    expect(double.value).toBe(2);
+    expect(double.value).toBe(2);
+    expect(getter).toHaveBeenCalledTimes(1);
+
+    s.n = 5;
+    s.n = 6;
+    expect(getter).toHaveBeenCalledTimes(1);
+    expect(double.value).toBe(12);
+    expect(getter).toHaveBeenCalledTimes(2);
+  });
+
+  it("never exposes intermediate values in a diamond", () => {
+    const count = signal(1);
+    const left = computed(() => count() + 1);
+    const right = computed(() => count() * 10);
+    const seen: string[] = [];
+    effect(() => seen.push(`${left.value}:${right.value}`));
+
+    count.set(2);
+    flushSync();
+    expect(seen).toEqual(["2:10", "3:20"]);
+  });
+
+  it("supports writable computeds", () => {
+    const s = state({ celsius: 0 });
+    const fahrenheit = computed({
+      get: () => (s.celsius * 9) / 5 + 32,
+      set: (value: number) => {
+        s.celsius = ((value - 32) * 5) / 9;
+      },
+    });
+    fahrenheit.value = 212;
+    expect(s.celsius).toBe(100);
+  });
+});
+
+describe("ownership", () => {
+  it("disposes effects and runs cleanups with their root", () => {
+    const s = state({ n: 0 });
+    const run = vi.fn(() => s.n);
+    const cleanup = vi.fn();
+    const dispose = createRoot((dispose) => {
+      effect(() => {
+        run();
+        onCleanup(cleanup);
+      });
+      return dispose;
+    });
+
+    dispose();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    s.n++;
+    flushSync();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  renderToString,
+  renderToStringWithHead,
+  routeContext,
+} from "../src/runtime/server.js";
+import { createElement } from "../src/runtime/dom.js";
+import { head, renderHead } from "../src/runtime/head.js";
+import { state } from "../src/runtime/state.js";
+import { createContext, useContext } from "../src/runtime/helpers/context.js";
+
+describe("renderToString", () => {
+  it("renders builders and state with escaped text", async () => {
+    const Page = (ctx: { params: { id: string } }) => {
+      const s = state({ name: "<Ada>" });
+      return createElement(
+        "p",
+        { class: "user", "data-id": ctx.params.id },
+        () => `Hello ${s.name}`,
+      );
+    };
+
+    const html = await renderToString(
+      Page,
+      routeContext("/users/42", { id: "42" }),
+    );
+    expect(html).toContain('<p class="user" data-id="42">');
+    expect(html).toContain("Hello &lt;Ada&gt;");
+  });
+
+  it("only provides document and window while rendering", async () => {
+    let seen = "";
+    const Page = async () => {
+      await Promise.resolve();
+      seen = typeof window;
+      return createElement("p");
+    };
+
+    await renderToString(Page);
+    expect(seen).toBe("object");
+    expect(typeof window).toBe("undefined");
+    expect(typeof document).toBe("undefined");
+  });
+
+  it("builds route contexts like the client router", () => {
+    expect(routeContext("/docs?tab=api&tab=cli#intro", { id: "1" })).toEqual({
+      path: "/docs",
+      params: { id: "1" },
+      query: { tab: ["api", "cli"] },
+      hash: "#intro",
+      data: undefined,
+    });
+  });
+
+  it("awaits async components", async () => {
+    const Page = async () => createElement("main", null, "loaded");
+    expect(await renderToString(Page)).toBe("<main>loaded</main>");
+  });
+
+  it("keeps each render's head tags apart", async () => {
+    const Page = async (props: { title: string }) => {
+      head({ title: props.title });
+      await Promise.resolve();
+      return createElement("h1", null, props.title);
+    };
+
+    const [a, b] = await Promise.all([
+      renderToStringWithHead(Page, { title: "A" }),
+      renderToStringWithHead(Page, { title: "B" }),
+    ]);
+    expect(a.head).toBe("<title>A</title>");
+    expect(b.head).toBe("<title>B</title>");
+    expect(renderHead()).toBe("");
+  });
+
+  it("only scopes the part of a render before its first await", async () => {
+    const Theme = createContext("light");
+    const themes: string[] = [];
+    let removeLate = () => {};
+    const Page = async () => {
+      const shell = Theme.Provider({
+        value: "dark",
+        children: createElement("div"),
+      });
+      head({ title: "Before" });
+      themes.push(useContext(Theme));
+      await Promise.resolve();
+      removeLate = head({ title: "After" });
+      themes.push(useContext(Theme));
+      return shell;
+    };
+
+    const rendered = await renderToStringWithHead(Page);
+    removeLate();
+    expect(rendered.head).toBe("<title>Before</title>");
+    expect(themes).toEqual(["dark", "light"]);
+  });
+
+  it("doesn't leak provided context into the next render", async () => {
+    const Theme = createContext("light");
+    const Dark = () =>
+      Theme.Provider({ value: "dark", children: createElement("span") });
+    const Reader = () => createElement("span", null, useContext(Theme));
+
+    await renderToString(Dark);
+    expect(await renderToString(Reader)).toBe("<span>light</span>");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  state,
+  signal,
+  computed,
+  effect,
+  subscribe,
+  isSubscribable,
+  flushSync,
+  onPatch,
+  StatePatch,
+} from "../src/runtime/state.js";
+
+describe("state parent links", () => {
+  it("stops notifying a parent once a child is moved out of it", () => {
+    const a = state({ child: { count: 0 } as { count: number } | null });
+    const b = state({ child: null as { count: number } | null });
+    const child = a.child!;
+
+    const onA = vi.fn();
+    const onB = vi.fn();
+    subscribe(a, onA);
+    subscribe(b, onB);
+
+    b.child = child;
+    a.child = null;
+    flushSync();
+    onA.mockClear();
+    onB.mockClear();
+
+    child.count++;
+    flushSync();
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets deleted children", () => {
+    const s = state<Record<string, { n: number }>>({ item: { n: 1 } });
+    const item = s.item;
+    const listener = vi.fn();
+    subscribe(s, listener);
+
+    delete s.item;
+    flushSync();
+    listener.mockClear();
+
+    item.n = 2;
+    flushSync();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("reports patch paths where the object currently lives", () => {
+    const s = state({ list: [{ title: "a" }, { title: "b" }] });
+    const second = s.list[1];
+    const patches: StatePatch[] = [];
+    onPatch(s, (patch) => patches.push(patch));
+
+    s.list.shift();
+    patches.length = 0;
+    second.title = "B";
+
+    expect(patches).toHaveLength(1);
+    expect(patches[0].path).toEqual(["list", "0", "title"]);
+  });
+});
+
+describe("signal", () => {
+  it("reads through a call, .value and peek()", () => {
+    const count = signal(1);
+    count.set(2);
+    expect(count()).toBe(2);
+
+    count.value = 3;
+    expect(count.value).toBe(3);
+
+    count.update((n) => n * 2);
+    expect(count.peek()).toBe(6);
+  });
+
+  it("re-runs effects and computeds that read it", () => {
+    const count = signal(1);
+    const doubled = computed(() => count() * 2);
+    const seen: number[] = [];
+    effect(() => {
+      seen.push(count());
+    });
+
+    count.set(2);
+    flushSync();
+    expect(seen).toEqual([1, 2]);
+    expect(doubled.value).toBe(4);
+  });
+
+  it("doesn't track peek() or notify for an unchanged value", () => {
+    const count = signal(1);
+    const run = vi.fn(() => count.peek());
+    effect(run);
+    const listener = vi.fn();
+    subscribe(count, listener);
+
+    count.set(2);
+    count.set(2);
+    flushSync();
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("can be subscribed to and unsubscribed from", () => {
+    const count = signal(0);
+    const listener = vi.fn();
+    const unsubscribe = subscribe(count, listener);
+
+    count.set(1);
+    flushSync();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    count.set(2);
+    flushSync();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("tells subscribable values apart", () => {
+    expect(isSubscribable(signal(0))).toBe(true);
+    expect(isSubscribable(state({}))).toBe(true);
+    expect(isSubscribable({})).toBe(false);
+    expect(isSubscribable(() => 0)).toBe(false);
+    expect(isSubscribable(null)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRoot, flushSync, state } from "../src/runtime/state.js";
+import {
+  createStore,
+  clearStores,
+  StoreActionContext,
+} from "../src/runtime/helpers/context.js";
+
+afterEach(() => clearStores());
+
+const createCart = () =>
+  createStore("cart", { items: [] as string[], note: "" }, (state) => ({
+    add: (item: string) => {
+      state.items.push(item);
+    },
+    addLater: async (item: string) => {
+      await Promise.resolve();
+      state.items.push(item);
+    },
+    setNote: (note: string) => {
+      state.note = note;
+    },
+  }));
+
+describe("store.select", () => {
+  it("notifies only when the selected value changes", () => {
+    const store = createCart();
+    const count = store.select((state) => state.items.length);
+    const listener = vi.fn();
+    count.subscribe(listener);
+
+    store.actions.setNote("hi");
+    flushSync();
+    expect(listener).not.toHaveBeenCalled();
+
+    store.actions.add("apple");
+    flushSync();
+    expect(count.value).toBe(1);
+    expect(listener).toHaveBeenCalledWith(1, 0);
+  });
+
+  it("doesn't track state read by its listeners", () => {
+    const store = createCart();
+    const other = state({ n: 0 });
+    const selector = vi.fn((state: { items: string[] }) => state.items.length);
+    const count = store.select(selector);
+    count.subscribe(() => other.n);
+
+    store.actions.add("apple");
+    flushSync();
+    expect(selector).toHaveBeenCalledTimes(2);
+
+    other.n++;
+    flushSync();
+    expect(selector).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops selecting once disposed", () => {
+    const store = createCart();
+    const selector = vi.fn((state: { items: string[] }) => state.items.length);
+    const count = store.select(selector);
+    count.dispose();
+
+    store.actions.add("apple");
+    flushSync();
+    expect(selector).toHaveBeenCalledTimes(1);
+  });
+
+  it("is disposed with the owner that created it", () => {
+    const store = createCart();
+    const selector = vi.fn((state: { items: string[] }) => state.items.length);
+    const dispose = createRoot((dispose) => {
+      store.select(selector);
+      return dispose;
+    });
+    dispose();
+
+    store.actions.add("apple");
+    flushSync();
+    expect(selector).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("store middleware", () => {
+  it("sees before and after snapshots, cloning once per snapshot", async () => {
+    const contexts: StoreActionContext<any>[] = [];
+    const store = createCart();
+    store.use((ctx, next) => {
+      contexts.push(ctx);
+      return next();
+    });
+    const clone = vi.spyOn(globalThis, "structuredClone");
+
+    store.actions.add("apple");
+    await store.actions.addLater("pear");
+    expect(clone).toHaveBeenCalledTimes(4);
+    clone.mockRestore();
+
+    expect(contexts[0].before.items).toEqual([]);
+    expect(contexts[0].after.items).toEqual(["apple"]);
+    expect(contexts[1].after.items).toEqual(["apple", "pear"]);
+  });
+});
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { state, toRaw } from "../src/runtime/state.js";
+import { syncAcrossTabs } from "../src/runtime/helpers/sync.js";
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("syncAcrossTabs", () => {
+  it("applies writes from another tab", async () => {
+    const a = state({ count: 0, items: [] as string[] });
+    const b = state({ count: 0, items: [] as string[] });
+    const syncA = syncAcrossTabs(a, { channel: "basic" });
+    const syncB = syncAcrossTabs(b, { channel: "basic" });
+    await settle();
+
+    a.count = 2;
+    a.items.push("x");
+    await settle();
+    expect(toRaw(b)).toEqual({ count: 2, items: ["x"] });
+
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("converges when tabs edit different fields of one key concurrently", async () => {
+    const a = state({ user: { name: "", email: "" } });
+    const b = state({ user: { name: "", email: "" } });
+    const syncA = syncAcrossTabs(a, { channel: "concurrent" });
+    const syncB = syncAcrossTabs(b, { channel: "concurrent" });
+    await settle();
+
+    a.user.name = "Ada";
+    b.user.email = "ada@example.com";
+    await settle();
+    expect(toRaw(a)).toEqual({
+      user: { name: "Ada", email: "ada@example.com" },
+    });
+    expect(toRaw(b)).toEqual(toRaw(a));
+
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("converges when one tab replaces an object another edits inside", async () => {
+    const a = state({ user: { name: "", email: "" } });
+    const b = state({ user: { name: "", email: "" } });
+    const syncA = syncAcrossTabs(a, { channel: "replace" });
+    const syncB = syncAcrossTabs(b, { channel: "replace" });
+    await settle();
+
+    a.user = { name: "Ada", email: "ada@example.com" };
+    b.user.name = "Grace";
+    await settle();
+    expect(toRaw(a)).toEqual(toRaw(b));
+
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("keeps Map and Set values", async () => {
+    const create = () =>
+      state({
+        tags: new Set(["a"]),
+        scores: new Map([["x", 1]]),
+        seen: null as Date | null,
+      });
+    const a = create();
+    const b = create();
+    const syncA = syncAcrossTabs(a, { channel: "collections" });
+    const syncB = syncAcrossTabs(b, { channel: "collections" });
+    await settle();
+
+    a.tags.add("b");
+    a.scores.set("y", 2);
+    a.seen = new Date(0);
+    await settle();
+    expect(toRaw(b.tags)).toEqual(new Set(["a", "b"]));
+    expect(toRaw(b.scores)).toEqual(
+      new Map([
+        ["x", 1],
+        ["y", 2],
+      ]),
+    );
+    expect(b.seen).toEqual(new Date(0));
+
+    a.scores = new Map([["z", 3]]);
+    a.tags.delete("a");
+    await settle();
+    expect(toRaw(b.scores)).toEqual(new Map([["z", 3]]));
+    expect(toRaw(b.tags)).toEqual(new Set(["b"]));
+
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("sends a new tab the full state", async () => {
+    const a = state({ theme: "dark", count: 0, cart: new Map([["pen", 2]]) });
+    const syncA = syncAcrossTabs(a, { channel: "snapshot" });
+    a.count = 3;
+    await settle();
+
+    const b = state({ theme: "light", count: 0, cart: new Map() });
+    const syncB = syncAcrossTabs(b, { channel: "snapshot" });
+    await settle();
+    expect(b.theme).toBe("dark");
+    expect(b.count).toBe(3);
+    expect(toRaw(b.cart)).toEqual(new Map([["pen", 2]]));
+
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("reports values that cannot be sent instead of throwing", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const a = state({ node: {} as Record<string, unknown>, count: 0 });
+    a.node.self = a.node;
+    const syncA = syncAcrossTabs(a, { channel: "unsendable" });
+    const b = state({ node: {} as Record<string, unknown>, count: 0 });
+    const syncB = syncAcrossTabs(b, { channel: "unsendable" });
+    await settle();
+
+    (a as Record<string, unknown>).big = BigInt(1);
+    a.count = 1;
+    await settle();
+    expect(error).toHaveBeenCalled();
+    expect(b.count).toBe(1);
+    expect("big" in b).toBe(false);
+
+    error.mockRestore();
+    syncA.stop();
+    syncB.stop();
+  });
+
+  it("only syncs included keys", async () => {
+    const a = state({ shared: 0, local: 0 });
+    const b = state({ shared: 0, local: 0 });
+    const syncA = syncAcrossTabs(a, {
+      channel: "include",
+      include: ["shared"],
+    });
+    const syncB = syncAcrossTabs(b, {
+      channel: "include",
+      include: ["shared"],
+    });
+    await settle();
+
+    a.shared = 1;
+    a.local = 1;
+    await settle();
+    expect(toRaw(b)).toEqual({ shared: 1, local: 0 });
+
+    syncA.stop();
+    syncB.stop();
+  });
+});
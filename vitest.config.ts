@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const runtime = (file: string) =>
+  fileURLToPath(new URL(`./src/runtime/${file}`, import.meta.url));
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "jsdom",
+  },
+  resolve: {
+    // Pages bundled by the prerender tests import the package by name
+    alias: [
+      { find: /^rynex\/server$/, replacement: runtime("server.ts") },
+      { find: /^rynex$/, replacement: runtime("index.ts") },
+    ],
+  },
+});